@@ -0,0 +1,171 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { BackstagePackageJson } from '@backstage/cli-node';
+
+import fs from 'fs-extra';
+
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  checkBackstageVersions,
+  checkRole,
+  checkScalprumConfig,
+  checkVersionSpecs,
+} from './checks';
+
+function pkg(fields: object): BackstagePackageJson {
+  return {
+    name: '@backstage/plugin-example',
+    version: '1.0.0',
+    ...fields,
+  } as BackstagePackageJson;
+}
+
+describe('checkRole', () => {
+  it('accepts exportable roles', () => {
+    expect(checkRole(pkg({ backstage: { role: 'backend-plugin' } }))).toEqual({
+      title: 'Package role',
+      status: 'pass',
+      message: 'backend-plugin',
+    });
+  });
+
+  it.each([{}, { backstage: { role: 'web-library' } }])(
+    'rejects %j',
+    fields => {
+      expect(checkRole(pkg(fields)).status).toBe('fail');
+    },
+  );
+});
+
+describe('checkBackstageVersions', () => {
+  it.each([
+    [undefined, '1.40.0', 'pass'],
+    ['1.40.0', '1.40.2', 'pass'],
+    ['1.38.0', '1.40.0', 'warn'],
+    ['>=1.30.0 <1.35.0', '1.40.0', 'fail'],
+    ['1.40.0', undefined, 'warn'],
+  ])(
+    'checks supported versions %s against Backstage %s: %s',
+    (supportedVersions, backstageVersion, status) => {
+      const check = checkBackstageVersions(
+        pkg({
+          backstage: {
+            role: 'backend-plugin',
+            'supported-versions': supportedVersions,
+          },
+        }),
+        backstageVersion,
+      );
+      expect(check.status).toBe(status);
+    },
+  );
+});
+
+describe('checkVersionSpecs', () => {
+  const workspacePackages = [
+    {
+      dir: '/ws/plugins/example-common',
+      packageJson: {
+        name: '@backstage/plugin-example-common',
+        version: '1.2.0',
+      },
+    },
+  ];
+
+  it('resolves workspace packages', async () => {
+    const check = await checkVersionSpecs(
+      pkg({
+        dependencies: { '@backstage/plugin-example-common': 'workspace:^' },
+        peerDependencies: { react: '^18.0.0' },
+      }),
+      workspacePackages,
+    );
+    expect(check.status).toBe('pass');
+  });
+
+  it('reports unresolvable workspace packages', async () => {
+    const check = await checkVersionSpecs(
+      pkg({
+        dependencies: {
+          '@backstage/plugin-example-common': 'workspace:^2.0.0',
+          '@backstage/plugin-example-node': 'workspace:*',
+        },
+      }),
+      workspacePackages,
+    );
+    expect(check.status).toBe('fail');
+    expect(check.message).toBe(
+      [
+        'cannot resolve',
+        "@backstage/plugin-example-common@workspace:^2.0.0: workspace version 1.2.0 doesn't match",
+        '@backstage/plugin-example-node@workspace:*: no such package in the workspace',
+      ].join('\n- '),
+    );
+  });
+});
+
+describe('checkScalprumConfig', () => {
+  let packageDir: string;
+
+  beforeEach(async () => {
+    packageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'doctor-test-'));
+    await fs.outputFile(path.join(packageDir, 'src', 'index.ts'), '');
+  });
+
+  afterEach(async () => {
+    await fs.remove(packageDir);
+  });
+
+  it('accepts a missing scalprum config', async () => {
+    const check = await checkScalprumConfig(pkg({}), packageDir);
+    expect(check.status).toBe('pass');
+  });
+
+  it('checks the scalprum field of the package.json file', async () => {
+    const check = await checkScalprumConfig(
+      pkg({
+        scalprum: {
+          name: 'backstage.plugin-example',
+          exposedModules: { PluginRoot: './src/index.ts' },
+        },
+      }),
+      packageDir,
+    );
+    expect(check.status).toBe('pass');
+  });
+
+  it('reports invalid external scalprum config files', async () => {
+    await fs.writeJson(path.join(packageDir, 'scalprum.json'), {
+      exposedModules: { PluginRoot: './src/missing.ts' },
+    });
+    const check = await checkScalprumConfig(
+      pkg({}),
+      packageDir,
+      'scalprum.json',
+    );
+    expect(check.status).toBe('fail');
+    expect(check.message).toBe(
+      [
+        'invalid config in scalprum.json',
+        "/: must have required property 'name'",
+        "/exposedModules/PluginRoot: ./src/missing.ts doesn't exist in the package",
+      ].join('\n- '),
+    );
+  });
+});
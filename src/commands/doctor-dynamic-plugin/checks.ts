@@ -0,0 +1,336 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { BackstagePackageJson } from '@backstage/cli-node';
+
+import fs from 'fs-extra';
+import * as semver from 'semver';
+
+import path from 'path';
+
+import {
+  checkSupportedVersions,
+  isBackstageVersionSpec,
+  resolveBackstageVersion,
+} from '../../lib/backstageVersion';
+import { execFile } from '../../lib/run';
+import { checkWorkspacePackageVersion } from '../export-dynamic-plugin/backend';
+import {
+  createDefaultScalprumConfig,
+  findScalprumConfigProblems,
+} from '../export-dynamic-plugin/scalprum';
+
+export type DoctorCheckStatus = 'pass' | 'warn' | 'fail';
+
+export type DoctorCheck = {
+  title: string;
+  status: DoctorCheckStatus;
+  message: string;
+  /** How to fix the problem, for warnings and failures */
+  hint?: string;
+};
+
+export type WorkspacePackage = {
+  dir: string;
+  packageJson: { name: string; version: string };
+};
+
+export const EXPORTABLE_ROLES = [
+  'backend-plugin',
+  'backend-plugin-module',
+  'frontend-plugin',
+  'frontend-plugin-module',
+];
+
+export const CONTAINER_TOOLS = ['podman', 'docker', 'buildah'];
+
+export function checkRole(pkg: BackstagePackageJson): DoctorCheck {
+  const title = 'Package role';
+  const role = pkg.backstage?.role;
+  if (!role) {
+    return {
+      title,
+      status: 'fail',
+      message: `'backstage.role' is not set`,
+      hint: `Set 'backstage.role' in the package.json file, for example with 'backstage-cli migrate package-roles'`,
+    };
+  }
+  if (!EXPORTABLE_ROLES.includes(role)) {
+    return {
+      title,
+      status: 'fail',
+      message: `'${role}' packages cannot be exported as dynamic plugins`,
+      hint: `Only the ${EXPORTABLE_ROLES.join(', ')} roles can be exported`,
+    };
+  }
+  return { title, status: 'pass', message: role };
+}
+
+export function checkBundled(pkg: BackstagePackageJson): DoctorCheck {
+  const title = 'Bundled field';
+  if (pkg.bundled) {
+    return {
+      title,
+      status: 'fail',
+      message: `'bundled' is set to true`,
+      hint: `Remove the 'bundled' field of the package.json file: backend dynamic plugins are not bundled`,
+    };
+  }
+  return { title, status: 'pass', message: `'bundled' is not set` };
+}
+
+export function checkBackstageVersions(
+  pkg: BackstagePackageJson,
+  backstageVersion: string | undefined,
+): DoctorCheck {
+  const title = 'Supported versions';
+  const supportedVersions = (
+    pkg.backstage as { 'supported-versions'?: string } | undefined
+  )?.['supported-versions'];
+  if (!backstageVersion) {
+    return {
+      title,
+      status: 'warn',
+      message: `no backstage.json file found, 'backstage.supported-versions' cannot be checked`,
+      hint: `Add a backstage.json file with the Backstage version at the root of the workspace`,
+    };
+  }
+  if (!supportedVersions) {
+    return {
+      title,
+      status: 'pass',
+      message: `'backstage.supported-versions' will be filled with ${backstageVersion}`,
+    };
+  }
+  switch (checkSupportedVersions(supportedVersions, backstageVersion)) {
+    case 'compatible':
+      return {
+        title,
+        status: 'pass',
+        message: `${supportedVersions} is compatible with Backstage ${backstageVersion}`,
+      };
+    case 'overridable':
+      return {
+        title,
+        status: 'warn',
+        message: `${supportedVersions} doesn't match Backstage ${backstageVersion} and will be overridden`,
+        hint: `Set 'backstage.supported-versions' to ${backstageVersion}`,
+      };
+    default:
+      return {
+        title,
+        status: 'fail',
+        message: `${supportedVersions} is not compatible with Backstage ${backstageVersion}`,
+        hint: `Update 'backstage.supported-versions' or the version in backstage.json`,
+      };
+  }
+}
+
+export async function checkVersionSpecs(
+  pkg: BackstagePackageJson,
+  workspacePackages: WorkspacePackage[],
+): Promise<DoctorCheck> {
+  const title = 'Version specs';
+  const specs = Object.entries({
+    ...pkg.peerDependencies,
+    ...pkg.optionalDependencies,
+    ...pkg.dependencies,
+  }).filter(
+    ([_, spec]) =>
+      spec.startsWith('workspace:') || isBackstageVersionSpec(spec),
+  );
+  if (specs.length === 0) {
+    return {
+      title,
+      status: 'pass',
+      message: 'no workspace: or backstage: version spec',
+    };
+  }
+
+  const problems: string[] = [];
+  for (const [dep, spec] of specs) {
+    if (spec.startsWith('workspace:')) {
+      const workspacePackage = workspacePackages.find(
+        p => p.packageJson.name === dep,
+      );
+      if (!workspacePackage) {
+        problems.push(`${dep}@${spec}: no such package in the workspace`);
+      } else if (
+        !checkWorkspacePackageVersion(spec, {
+          dir: workspacePackage.dir,
+          version: workspacePackage.packageJson.version,
+        })
+      ) {
+        problems.push(
+          `${dep}@${spec}: workspace version ${workspacePackage.packageJson.version} doesn't match`,
+        );
+      }
+      continue;
+    }
+    try {
+      await resolveBackstageVersion(dep, spec);
+    } catch (e) {
+      problems.push(`${dep}@${spec}: ${e instanceof Error ? e.message : e}`);
+    }
+  }
+
+  if (problems.length > 0) {
+    return {
+      title,
+      status: 'fail',
+      message: ['cannot resolve', ...problems].join('\n- '),
+      hint: `Fix the versions of these dependencies, and check that the workspace packages and backstage.json exist`,
+    };
+  }
+  return {
+    title,
+    status: 'pass',
+    message: `${specs.length} workspace: or backstage: version spec(s) resolvable`,
+  };
+}
+
+/**
+ * Checks the scalprum configuration of a frontend plugin, read from the
+ * given file, or else from the `scalprum` field of the package.json file, or
+ * else generated from its entry points.
+ */
+export async function checkScalprumConfig(
+  pkg: BackstagePackageJson & { scalprum?: unknown },
+  packageDir: string,
+  scalprumConfigFile?: string,
+  workspacePackages: WorkspacePackage[] = [],
+): Promise<DoctorCheck> {
+  const title = 'Scalprum config';
+  let scalprum: unknown;
+  let source: string;
+  if (scalprumConfigFile) {
+    source = scalprumConfigFile;
+    try {
+      scalprum = await fs.readJson(path.resolve(packageDir, source));
+    } catch (e) {
+      return {
+        title,
+        status: 'fail',
+        message: `cannot read ${source}: ${e}`,
+        hint: `Make '--scalprum-config' point to a valid JSON file`,
+      };
+    }
+  } else if (pkg.scalprum) {
+    source = `the 'scalprum' field of package.json`;
+    scalprum = pkg.scalprum;
+  } else {
+    source = `the default config exposing the 'exports' entry points`;
+    try {
+      scalprum = createDefaultScalprumConfig(pkg);
+    } catch (e) {
+      return {
+        title,
+        status: 'fail',
+        message: `cannot create ${source}: ${e instanceof Error ? e.message : e}`,
+        hint: `Add a scalprum config to the package.json file, for example generated with 'plugin export --print-scalprum-config'`,
+      };
+    }
+  }
+
+  const problems = await findScalprumConfigProblems(scalprum, {
+    packageDir,
+    workspacePackages,
+  });
+  if (problems.length > 0) {
+    return {
+      title,
+      status: 'fail',
+      message: [`invalid config in ${source}`, ...problems].join('\n- '),
+      hint: `Fix the scalprum config, for example { "name": "my.plugin", "exposedModules": { "PluginRoot": "./src/index.ts" } }`,
+    };
+  }
+  return { title, status: 'pass', message: `valid config in ${source}` };
+}
+
+async function getToolVersion(tool: string): Promise<string | undefined> {
+  try {
+    const { stdout } = await execFile(tool, ['--version']);
+    return stdout.trim().split('\n')[0];
+  } catch {
+    return undefined;
+  }
+}
+
+export async function checkYarn(): Promise<DoctorCheck> {
+  const title = 'yarn';
+  const version = await getToolVersion('yarn');
+  if (!version) {
+    return {
+      title,
+      status: 'fail',
+      message: 'yarn is not available',
+      hint: `Install yarn, for example with 'corepack enable', to run the export`,
+    };
+  }
+  return { title, status: 'pass', message: version };
+}
+
+export async function checkNpm(): Promise<DoctorCheck> {
+  const title = 'npm';
+  const version = await getToolVersion('npm');
+  if (!version) {
+    return {
+      title,
+      status: 'warn',
+      message: 'npm is not available',
+      hint: `Install npm 7 or newer, required by 'plugin package'`,
+    };
+  }
+  const coerced = semver.coerce(version);
+  if (coerced && semver.lt(coerced, '7.0.0')) {
+    return {
+      title,
+      status: 'warn',
+      message: `npm ${version} is older than 7`,
+      hint: `Upgrade npm: 'plugin package' uses 'npm pack --pack-destination'`,
+    };
+  }
+  return { title, status: 'pass', message: version };
+}
+
+export async function checkPackagingTool(tool: string): Promise<DoctorCheck> {
+  const version = await getToolVersion(tool);
+  if (!version) {
+    return {
+      title: tool,
+      status: 'warn',
+      message: `${tool} is not available`,
+      hint: `Install ${tool}, required by 'plugin package' to stage the plugins (use Git Bash or WSL on Windows)`,
+    };
+  }
+  return { title: tool, status: 'pass', message: version };
+}
+
+export async function checkContainerTool(): Promise<DoctorCheck> {
+  const title = 'Container tool';
+  for (const tool of CONTAINER_TOOLS) {
+    const version = await getToolVersion(tool);
+    if (version) {
+      return { title, status: 'pass', message: version };
+    }
+  }
+  return {
+    title,
+    status: 'warn',
+    message: `none of ${CONTAINER_TOOLS.join(', ')} is available`,
+    hint: `Install one of them to build images with 'plugin package --tag', or use '--output-oci' or '--export-to' which need no container tool`,
+  };
+}
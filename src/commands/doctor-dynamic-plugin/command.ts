@@ -0,0 +1,101 @@
+import { BackstagePackageJson } from '@backstage/cli-node';
+
+import { getPackages } from '@manypkg/get-packages';
+import chalk from 'chalk';
+import { OptionValues } from 'commander';
+import fs from 'fs-extra';
+
+import { getWorkspaceBackstageVersion } from '../../lib/backstageVersion';
+import { paths } from '../../lib/paths';
+import { Task } from '../../lib/tasks';
+import { loadExportConfig } from '../export-dynamic-plugin/config';
+import {
+  checkBackstageVersions,
+  checkBundled,
+  checkContainerTool,
+  checkNpm,
+  checkPackagingTool,
+  checkRole,
+  checkScalprumConfig,
+  checkVersionSpecs,
+  checkYarn,
+  DoctorCheck,
+  DoctorCheckStatus,
+} from './checks';
+
+const ICONS: Record<DoctorCheckStatus, string> = {
+  pass: chalk.green('✔'),
+  warn: chalk.yellow('⚠'),
+  fail: chalk.red('✘'),
+};
+
+export async function command(opts: OptionValues): Promise<void> {
+  const pkg = (await fs.readJson(
+    paths.resolveTarget('package.json'),
+  )) as BackstagePackageJson;
+  const role = pkg.backstage?.role;
+
+  Task.section(`Checking ${pkg.name} before export`);
+  const checks: DoctorCheck[] = [];
+  const report = (check: DoctorCheck) => {
+    checks.push(check);
+    const message = check.message.split('\n').join('\n      ');
+    Task.log(`  ${ICONS[check.status]} ${check.title}: ${message}`);
+    if (check.hint && check.status !== 'pass') {
+      Task.log(chalk.gray(`      ${check.hint}`));
+    }
+  };
+
+  report(checkRole(pkg));
+
+  let scalprumConfig: string | undefined = opts.scalprumConfig;
+  try {
+    const exportConfig = await loadExportConfig(paths.targetDir);
+    report({
+      title: 'Export configuration',
+      status: 'pass',
+      message: exportConfig
+        ? `valid configuration in ${exportConfig.source}`
+        : 'no configuration file',
+    });
+    scalprumConfig ??= exportConfig?.config.scalprumConfig;
+  } catch (e) {
+    report({
+      title: 'Export configuration',
+      status: 'fail',
+      message: e instanceof Error ? e.message : String(e),
+      hint: `Fix the configuration, its keys are the camel-cased 'plugin export' options`,
+    });
+  }
+
+  if (role === 'backend-plugin' || role === 'backend-plugin-module') {
+    report(checkBundled(pkg));
+  }
+  report(checkBackstageVersions(pkg, await getWorkspaceBackstageVersion()));
+  const { packages } = await getPackages(paths.targetDir);
+  report(await checkVersionSpecs(pkg, packages));
+  if (role === 'frontend-plugin' || role === 'frontend-plugin-module') {
+    report(
+      await checkScalprumConfig(pkg, paths.targetDir, scalprumConfig, packages),
+    );
+  }
+
+  report(await checkYarn());
+  report(await checkNpm());
+  report(await checkPackagingTool('bash'));
+  report(await checkPackagingTool('tar'));
+  report(await checkContainerTool());
+
+  const count = (status: DoctorCheckStatus) =>
+    checks.filter(c => c.status === status).length;
+  const failed = count('fail');
+  Task.log();
+  Task.log(
+    `${count('pass')} passed, ${count('warn')} warning(s), ${failed} failed`,
+  );
+  if (failed > 0) {
+    throw new Error(
+      `${failed} check(s) failed, the plugin cannot be exported as it is`,
+    );
+  }
+}
@@ -0,0 +1 @@
+export { command } from './command';
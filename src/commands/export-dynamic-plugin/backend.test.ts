@@ -0,0 +1,125 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { BackstagePackageJson } from '@backstage/cli-node';
+
+import { Packages } from '@manypkg/get-packages';
+import fs from 'fs-extra';
+
+import { createRequire } from 'node:module';
+import os from 'node:os';
+import path from 'node:path';
+
+import { customizeForDynamicUse, searchEmbedded } from './backend';
+
+describe('backend', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'backend-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  async function createMonorepo(
+    packageJsons: BackstagePackageJson[],
+  ): Promise<Packages> {
+    const packages = [];
+    for (const packageJson of packageJsons) {
+      const dir = path.join(workDir, packageJson.name.replace('/', '-'));
+      await fs.outputJson(path.join(dir, 'package.json'), packageJson);
+      packages.push({ dir, relativeDir: path.basename(dir), packageJson });
+    }
+    return { rootDir: workDir, packages } as unknown as Packages;
+  }
+
+  describe('searchEmbedded', () => {
+    const pkg: BackstagePackageJson = {
+      name: '@example/plugin-foo-backend-module-bar',
+      version: '1.0.0',
+      backstage: { role: 'backend-plugin-module' },
+      dependencies: { '@example/plugin-foo-common': '^1.0.0' },
+      peerDependencies: {
+        '@example/plugin-foo-node': '^1.0.0',
+        '@example/shared-lib': '^1.0.0',
+      },
+    };
+
+    async function search(packagesToEmbed: string[]) {
+      const monoRepoPackages = await createMonorepo(
+        [
+          '@example/plugin-foo-common',
+          '@example/plugin-foo-node',
+          '@example/shared-lib',
+        ].map(name => ({ name, version: '1.0.0', main: 'src/index.ts' })),
+      );
+      const embedded = await searchEmbedded(
+        pkg,
+        packagesToEmbed,
+        monoRepoPackages,
+        createRequire(path.join(workDir, 'package.json')),
+        [],
+      );
+      return embedded.map(e => e.packageName);
+    }
+
+    it('implicitly embeds the common and node libraries only when they are private dependencies', async () => {
+      await expect(search([])).resolves.toEqual(['@example/plugin-foo-common']);
+    });
+
+    it('embeds the explicitly listed peer dependencies', async () => {
+      await expect(search(['@example/shared-lib'])).resolves.toEqual([
+        '@example/shared-lib',
+        '@example/plugin-foo-common',
+      ]);
+    });
+  });
+
+  describe('customizeForDynamicUse', () => {
+    it('pins the transitive workspace dependencies declared as peer dependencies', async () => {
+      const monoRepoPackages = await createMonorepo([
+        {
+          name: '@example/lib-a',
+          version: '1.2.0',
+          dependencies: { '@example/lib-b': '^1.0.0' },
+          peerDependencies: { '@example/lib-b': 'workspace:^' },
+        },
+        { name: '@example/lib-b', version: '1.3.0' },
+      ]);
+      const dynamicPkgPath = path.join(workDir, 'dist-dynamic', 'package.json');
+      await fs.outputJson(dynamicPkgPath, {
+        name: '@example/plugin-foo-backend-dynamic',
+        version: '1.0.0',
+        dependencies: { '@example/lib-a': 'workspace:^' },
+      });
+
+      await customizeForDynamicUse({
+        embedded: [],
+        isYarnV1: false,
+        monoRepoPackages,
+      })(dynamicPkgPath);
+
+      const customized = await fs.readJson(dynamicPkgPath);
+      expect(customized.dependencies).toEqual({ '@example/lib-a': '^1.2.0' });
+      expect(customized.resolutions).toMatchObject({
+        '@example/lib-a': '1.2.0',
+        '@example/lib-b': '1.3.0',
+      });
+    });
+  });
+});
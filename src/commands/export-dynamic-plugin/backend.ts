@@ -32,6 +32,7 @@ import {
   isBackstageVersionSpec,
   resolveBackstageVersion,
 } from '../../lib/backstageVersion';
+import { CustomError } from '../../lib/errors';
 import { productionPack } from '../../lib/packager/productionPack';
 import { paths } from '../../lib/paths';
 import { Task } from '../../lib/tasks';
@@ -42,6 +43,11 @@ import {
   gatherNativeModules,
   isValidPluginModule,
 } from './backend-utils';
+import {
+  clearExportDecisions,
+  ExportReport,
+  ExportReportCustomizedPackage,
+} from './report';
 
 export async function getMonorepoRootResolutions(): Promise<
   Record<string, string>
@@ -50,7 +56,119 @@ export async function getMonorepoRootResolutions(): Promise<
   return (await fs.readJson(rootPkgPath).catch(() => ({}))).resolutions || {};
 }
 
-export async function backend(opts: OptionValues): Promise<string> {
+/**
+ * Thrown when shared packages end up in the private dependencies of the
+ * dynamic plugin, with the direct dependencies that should probably be
+ * embedded to avoid it.
+ */
+export class SharedPackagesInPrivateDependenciesError extends CustomError {
+  readonly sharedPackages: string[];
+  readonly packagesToEmbed: string[];
+
+  constructor(sharedPackages: string[], packagesToEmbed: string[]) {
+    super(
+      `Following shared package(s) should not be part of the plugin private dependencies:${chalk.cyan(
+        ['', ...sharedPackages].join('\n- '),
+      )}\n\nEither unshare them with the ${chalk.cyan(
+        '--shared-package !<package>',
+      )} option, or use the ${chalk.cyan(
+        '--embed-package',
+      )} to embed the following packages which use shared dependencies:${chalk.cyan(
+        ['', ...packagesToEmbed].join('\n- '),
+      )}`,
+    );
+    this.sharedPackages = sharedPackages;
+    this.packagesToEmbed = packagesToEmbed;
+  }
+}
+
+/**
+ * Stages of a backend export: `all` stages, or only the rebuild and re-pack of
+ * the main package, reusing the embedded packages and the private
+ * dependencies of a previous export.
+ */
+export type BackendExportStages = 'all' | 'main-package';
+
+export async function backend(
+  opts: OptionValues,
+  report?: ExportReport,
+  stages: BackendExportStages = 'all',
+): Promise<string> {
+  if (!opts.autoEmbed || stages === 'main-package') {
+    return exportBackend(opts, report, stages);
+  }
+  if (!opts.install) {
+    throw new Error(
+      `The ${chalk.cyan('--auto-embed')} option requires the ${chalk.cyan(
+        'yarn install',
+      )} step, and cannot be used with ${chalk.cyan('--no-install')}`,
+    );
+  }
+
+  const packagesToEmbed = [...((opts.embedPackage || []) as string[])];
+  const autoEmbeddedPackages: string[] = [];
+  if (report) {
+    report.autoEmbeddedPackages = autoEmbeddedPackages;
+  }
+  for (;;) {
+    try {
+      const target = await exportBackend(
+        {
+          ...opts,
+          embedPackage: packagesToEmbed,
+          // Leftovers of the previous attempt, especially the `yarn.lock`
+          // file, would not match the new embedded packages.
+          clean: opts.clean || autoEmbeddedPackages.length > 0,
+        },
+        report,
+        stages,
+      );
+      // Later exports of the same plugin, in watch mode, embed the same packages
+      opts.embedPackage = packagesToEmbed;
+      if (autoEmbeddedPackages.length === 0) {
+        Task.log(`No additional package needed to be embedded`);
+      } else {
+        Task.log(
+          `Embedded packages needed by the dynamic plugin:${chalk.cyan(
+            ['', ...packagesToEmbed].join('\n- '),
+          )}\nTo skip the automatic embedding, persist them with: ${chalk.cyan(
+            packagesToEmbed.map(p => `--embed-package ${p}`).join(' '),
+          )}`,
+        );
+      }
+      return target;
+    } catch (e) {
+      if (!(e instanceof SharedPackagesInPrivateDependenciesError)) {
+        throw e;
+      }
+      const newPackagesToEmbed = e.packagesToEmbed.filter(
+        p => !packagesToEmbed.includes(p),
+      );
+      if (newPackagesToEmbed.length === 0) {
+        // Fixed point: embedding more packages would not help.
+        throw e;
+      }
+      Task.log(
+        chalk.yellow(
+          `Shared packages found in the private dependencies, retrying the export with the following packages embedded:${chalk.cyan(
+            ['', ...newPackagesToEmbed].join('\n- '),
+          )}`,
+        ),
+      );
+      packagesToEmbed.push(...newPackagesToEmbed);
+      autoEmbeddedPackages.push(...newPackagesToEmbed);
+      if (report) {
+        clearExportDecisions(report);
+      }
+    }
+  }
+}
+
+async function exportBackend(
+  opts: OptionValues,
+  report: ExportReport | undefined,
+  stages: BackendExportStages,
+): Promise<string> {
   const targetRelativePath = 'dist-dynamic';
   const target = path.join(paths.targetDir, targetRelativePath);
   const yarn = 'yarn';
@@ -88,6 +206,10 @@ export async function backend(opts: OptionValues): Promise<string> {
   const unusedEmbeddedPackages = packagesToEmbed.filter(
     e => !embeddedPackages.includes(e),
   );
+  if (report) {
+    report.unusedEmbeddedPackages = unusedEmbeddedPackages;
+    report.nativeModules.suppressed = suppressNative;
+  }
   if (unusedEmbeddedPackages.length > 0) {
     Task.log(
       chalk.yellow(
@@ -98,26 +220,10 @@ export async function backend(opts: OptionValues): Promise<string> {
     );
   }
 
-  const stringOrRegexp = (s: string) =>
-    s.startsWith('/') && s.endsWith('/') ? new RegExp(s.slice(1, -1)) : s;
-
-  const moveToPeerDependencies = [
-    /@backstage\//,
-    ...((opts.sharedPackage || []) as string[])
-      .filter(p => !p.startsWith('!'))
-      .map(stringOrRegexp),
-  ];
-
-  const dontMoveToPeerDependencies = ((opts.sharedPackage || []) as string[])
-    .filter(p => p.startsWith('!'))
-    .map(p => p.slice(1))
-    .map(stringOrRegexp);
-  dontMoveToPeerDependencies.push(...embeddedPackages);
-
-  const sharedPackagesRules: SharedPackagesRules = {
-    include: moveToPeerDependencies,
-    exclude: dontMoveToPeerDependencies,
-  };
+  const sharedPackagesRules = createSharedPackagesRules(
+    (opts.sharedPackage || []) as string[],
+    embeddedPackages,
+  );
 
   if (opts.clean) {
     await fs.remove(target);
@@ -166,9 +272,39 @@ throw new Error(
     [key: string]: string;
   } = {};
 
+  const addEmbeddedPeerDependencies = (embeddedPkg: BackstagePackageJson) => {
+    if (embeddedPkg.peerDependencies) {
+      Object.entries(embeddedPkg.peerDependencies).forEach(
+        ([name, version]) => {
+          addToDependenciesForModule({
+            dependency: { name, version },
+            dependencies: embeddedPeerDependencies,
+            ignoreVersionCheck,
+            module: embeddedPkg.name,
+          });
+        },
+      );
+    }
+  };
+
   for (const embedded of embeddedResolvedPackages) {
     const embeddedDestRelativeDir = embeddedPackageRelativePath(embedded);
     const embeddedDestDir = path.join(target, embeddedDestRelativeDir);
+    if (stages === 'main-package') {
+      // Already packed and customized by a previous export
+      addEmbeddedPeerDependencies(
+        await fs.readJson(path.join(embeddedDestDir, 'package.json')),
+      );
+      continue;
+    }
+    report?.embeddedPackages.push({
+      name: embedded.packageName,
+      version: embedded.version,
+      parent: embedded.parentPackageName,
+      source: path.relative(paths.targetDir, embedded.dir),
+      destination: embeddedDestRelativeDir,
+      mode: embedded.alreadyPacked ? 'copied' : 'packed',
+    });
     if (!embedded.alreadyPacked) {
       if (opts.build) {
         Task.log(
@@ -223,24 +359,12 @@ throw new Error(
       isYarnV1: yarnVersion.startsWith('1.'),
       monoRepoPackages,
       sharedPackages: sharedPackagesRules,
+      report,
       overridding: {
         private: true,
         version: `${embedded.version}+embedded`,
       },
-      after: embeddedPkg => {
-        if (embeddedPkg.peerDependencies) {
-          Object.entries(embeddedPkg.peerDependencies).forEach(
-            ([name, version]) => {
-              addToDependenciesForModule({
-                dependency: { name, version },
-                dependencies: embeddedPeerDependencies,
-                ignoreVersionCheck,
-                module: embeddedPkg.name,
-              });
-            },
-          );
-        }
-      },
+      after: addEmbeddedPeerDependencies,
     })(path.join(embeddedDestDir, 'package.json'));
   }
 
@@ -290,6 +414,7 @@ throw new Error(
     isYarnV1: yarnVersion.startsWith('1.'),
     monoRepoPackages,
     sharedPackages: sharedPackagesRules,
+    report,
     overridding: {
       name: derivedPackageName,
       bundleDependencies: true,
@@ -325,6 +450,11 @@ throw new Error(
       if (Object.keys(mainPeerDependencies).length > 0) {
         mainPkg.peerDependencies = mainPeerDependencies;
       }
+      if (report) {
+        for (const dep of Object.keys(embeddedPeerDependencies)) {
+          report.hoistedPeerDependencies[dep] = mainPeerDependencies[dep];
+        }
+      }
     },
   })(path.resolve(target, 'package.json'));
 
@@ -368,139 +498,185 @@ throw new Error(
     }
   }
 
-  if (opts.install) {
-    Task.log(`Installing private dependencies of the main package`);
+  if (opts.install && stages === 'all') {
+    await installDynamicPlugin({
+      target,
+      isYarnV1: yarnVersion.startsWith('1.'),
+      frozenLockfile: yarnLockExists,
+      embeddedPackages,
+      sharedPackages: sharedPackagesRules,
+      allowNative,
+      report,
+    });
+  }
+  return target;
+}
+
+/**
+ * Installs the private dependencies of a dynamic backend plugin package, then
+ * checks that they include neither shared packages nor native modules, and
+ * that the plugin provides the expected entry points.
+ */
+export async function installDynamicPlugin(options: {
+  target: string;
+  isYarnV1: boolean;
+  /** Whether the install must keep the existing yarn.lock file unchanged */
+  frozenLockfile: boolean;
+  embeddedPackages: string[];
+  sharedPackages: SharedPackagesRules;
+  allowNative: string[];
+  report?: ExportReport | undefined;
+}): Promise<void> {
+  const {
+    target,
+    isYarnV1,
+    frozenLockfile,
+    embeddedPackages,
+    sharedPackages: sharedPackagesRules,
+    allowNative,
+  } = options;
+  const yarn = 'yarn';
+  const yarnLock = path.resolve(target, 'yarn.lock');
+  Task.log(`Installing private dependencies of the main package`);
 
-    const logFile = path.join(os.tmpdir(), 'rhdh-cli.yarn-install.log');
-    const redirect = `> ${logFile}`;
-    const yarnInstall = yarnVersion.startsWith('1.')
-      ? `${yarn} install --production${
-          yarnLockExists ? ' --frozen-lockfile' : ''
-        } ${redirect}`
-      : `${yarn} install${yarnLockExists ? ' --immutable' : ' --no-immutable'} ${redirect}`;
+  const logFile = path.join(os.tmpdir(), 'rhdh-cli.yarn-install.log');
+  const redirect = `> ${logFile}`;
+  const yarnInstall = isYarnV1
+    ? `${yarn} install --production${
+        frozenLockfile ? ' --frozen-lockfile' : ''
+      } ${redirect}`
+    : `${yarn} install${frozenLockfile ? ' --immutable' : ' --no-immutable'} ${redirect}`;
 
+  try {
+    await Task.forCommand(yarnInstall, { cwd: target, optional: false });
+  } catch (err) {
+    if (await fs.pathExists(logFile)) {
+      const logContents = await fs.readFile(logFile, 'utf8');
+      console.error(
+        chalk.red(
+          `\n${chalk.bold('yarn install failed. Log output from')} ${chalk.cyan(logFile)}:\n`,
+        ),
+      );
+      console.error(logContents);
+    }
+    throw err;
+  }
+  await fs.remove(path.join(target, '.yarn'));
+
+  // Checking if some shared dependencies have been included inside the private dependencies
+  Task.log(`Validating private dependencies`);
+  const dynamicPkg = (await fs.readJson(
+    path.resolve(target, 'package.json'),
+  )) as BackstagePackageJson;
+  const lockFile = await Lockfile.load(yarnLock);
+  const sharedPackagesInPrivateDeps: string[] = [];
+  for (const key of lockFile.keys()) {
+    const entry = lockFile.get(key);
+    if (!entry) {
+      continue;
+    }
+    if (dynamicPkg.name === key) {
+      continue;
+    }
+    if (embeddedPackages.includes(key)) {
+      continue;
+    }
+    if (isPackageShared(key, sharedPackagesRules)) {
+      sharedPackagesInPrivateDeps.push(key);
+    }
+  }
+  if (sharedPackagesInPrivateDeps.length > 0) {
+    // Some shared dependencies have been included inside the private dependencies
+    //   => analyze the yarn.lock file to guess from which direct dependencies they
+    //   were imported.
+
+    const lockfileContents = await fs.readFile(yarnLock, 'utf8');
+    let data: any;
     try {
-      await Task.forCommand(yarnInstall, { cwd: target, optional: false });
+      data = parseSyml(lockfileContents);
     } catch (err) {
-      if (await fs.pathExists(logFile)) {
-        const logContents = await fs.readFile(logFile, 'utf8');
-        console.error(
-          chalk.red(
-            `\n${chalk.bold('yarn install failed. Log output from')} ${chalk.cyan(logFile)}:\n`,
-          ),
-        );
-        console.error(logContents);
-      }
-      throw err;
+      throw new Error(`Failed parsing ${chalk.cyan(yarnLock)}: ${err}`);
     }
-    await fs.remove(paths.resolveTarget(targetRelativePath, '.yarn'));
-
-    // Checking if some shared dependencies have been included inside the private dependencies
-    Task.log(`Validating private dependencies`);
-    const lockFile = await Lockfile.load(yarnLock);
-    const sharedPackagesInPrivateDeps: string[] = [];
-    for (const key of lockFile.keys()) {
-      const entry = lockFile.get(key);
-      if (!entry) {
-        continue;
-      }
-      if (`${pkg.name}-dynamic` === key) {
-        continue;
-      }
-      if (embeddedPackages.includes(key)) {
-        continue;
-      }
-      if (isPackageShared(key, sharedPackagesRules)) {
-        sharedPackagesInPrivateDeps.push(key);
-      }
-    }
-    if (sharedPackagesInPrivateDeps.length > 0) {
-      // Some shared dependencies have been included inside the private dependencies
-      //   => analyze the yarn.lock file to guess from which direct dependencies they
-      //   were imported.
-
-      const dynamicPkgContent = await fs.readFile(
-        path.resolve(target, 'package.json'),
-        'utf8',
-      );
 
-      const dynamicPkg = JSON.parse(dynamicPkgContent) as BackstagePackageJson;
-      const lockfileContents = await fs.readFile(yarnLock, 'utf8');
-      let data: any;
-      try {
-        data = parseSyml(lockfileContents);
-      } catch (err) {
-        throw new Error(`Failed parsing ${chalk.cyan(yarnLock)}: ${err}`);
+    const packagesToProbablyEmbed: string[] = [];
+    for (const dep in dynamicPkg.dependencies || []) {
+      if (!Object.prototype.hasOwnProperty.call(dynamicPkg.dependencies, dep)) {
+        continue;
       }
+      const matchingEntry = Object.entries(data).find(([q, _]) => {
+        return (
+          q.startsWith(`${dep}@`) &&
+          (q.includes(`@${dynamicPkg.dependencies![dep]}`) ||
+            q.includes(`@npm:${dynamicPkg.dependencies![dep]}`))
+        );
+      });
 
-      const packagesToProbablyEmbed: string[] = [];
-      for (const dep in dynamicPkg.dependencies || []) {
-        if (
-          !Object.prototype.hasOwnProperty.call(dynamicPkg.dependencies, dep)
-        ) {
-          continue;
-        }
-        const matchingEntry = Object.entries(data).find(([q, _]) => {
-          return (
-            q.startsWith(`${dep}@`) &&
-            (q.includes(`@${dynamicPkg.dependencies![dep]}`) ||
-              q.includes(`@npm:${dynamicPkg.dependencies![dep]}`))
-          );
-        });
-
-        if (matchingEntry) {
-          const yarnEntry = matchingEntry[1] as any;
-          if (yarnEntry.dependencies) {
-            if (
-              Object.keys(yarnEntry.dependencies).some(d => {
-                return isPackageShared(d, sharedPackagesRules);
-              })
-            ) {
-              packagesToProbablyEmbed.push(dep);
-            }
+      if (matchingEntry) {
+        const yarnEntry = matchingEntry[1] as any;
+        if (yarnEntry.dependencies) {
+          if (
+            Object.keys(yarnEntry.dependencies).some(d => {
+              return isPackageShared(d, sharedPackagesRules);
+            })
+          ) {
+            packagesToProbablyEmbed.push(dep);
           }
         }
       }
-
-      throw new Error(
-        `Following shared package(s) should not be part of the plugin private dependencies:${chalk.cyan(
-          ['', ...sharedPackagesInPrivateDeps].join('\n- '),
-        )}\n\nEither unshare them with the ${chalk.cyan(
-          '--shared-package !<package>',
-        )} option, or use the ${chalk.cyan(
-          '--embed-package',
-        )} to embed the following packages which use shared dependencies:${chalk.cyan(
-          ['', ...packagesToProbablyEmbed].join('\n- '),
-        )}`,
-      );
     }
 
-    // Check whether private dependencies contain native modules, and fail for now (not supported).
-    const nativePackages: string[] = [];
-    for await (const nativePkg of gatherNativeModules(target)) {
-      if (!allowNative.includes(nativePkg)) {
-        nativePackages.push(nativePkg);
-      }
-    }
+    throw new SharedPackagesInPrivateDependenciesError(
+      sharedPackagesInPrivateDeps,
+      packagesToProbablyEmbed,
+    );
+  }
 
-    if (nativePackages.length > 0) {
-      throw new Error(
-        `Dynamic plugins do not support native plugins. the following native modules have been transitively detected:${chalk.cyan(
-          ['', ...nativePackages].join('\n- '),
-        )}`,
-      );
+  // Check whether private dependencies contain native modules, and fail for now (not supported).
+  const nativePackages: string[] = [];
+  for await (const nativePkg of gatherNativeModules(target)) {
+    options.report?.nativeModules.detected.push(nativePkg);
+    if (!allowNative.includes(nativePkg)) {
+      nativePackages.push(nativePkg);
+    } else {
+      options.report?.nativeModules.allowed.push(nativePkg);
     }
+  }
 
-    // Check that the backend plugin provides expected entrypoints.
-    Task.log(`Validating plugin entry points`);
-    const validateEntryPointsError = validatePluginEntryPoints(target);
-    if (validateEntryPointsError) {
-      throw new Error(validateEntryPointsError);
-    }
-    // everything is fine, remove the yarn install log
-    await fs.remove(paths.resolveTarget(targetRelativePath, logFile));
+  if (nativePackages.length > 0) {
+    throw new Error(
+      `Dynamic plugins do not support native plugins. the following native modules have been transitively detected:${chalk.cyan(
+        ['', ...nativePackages].join('\n- '),
+      )}`,
+    );
   }
-  return target;
+
+  // Check that the backend plugin provides expected entrypoints.
+  Task.log(`Validating plugin entry points`);
+  const validateEntryPointsError = validatePluginEntryPoints(target);
+  if (validateEntryPointsError) {
+    throw new Error(validateEntryPointsError);
+  }
+  // everything is fine, remove the yarn install log
+  await fs.remove(logFile);
+}
+
+/**
+ * Merges the version specs of the dependencies, optional dependencies and
+ * peer dependencies of a package, as declared in its `package.json`. When a
+ * package appears in several fields, the version spec of its dependency takes
+ * precedence.
+ */
+function dependencyVersionSpecs(
+  pkg: Pick<
+    BackstagePackageJson,
+    'dependencies' | 'optionalDependencies' | 'peerDependencies'
+  >,
+): Record<string, string> {
+  return {
+    ...pkg.peerDependencies,
+    ...pkg.optionalDependencies,
+    ...pkg.dependencies,
+  };
 }
 
 type ResolvedEmbedded = {
@@ -511,14 +687,18 @@ type ResolvedEmbedded = {
   alreadyPacked: boolean;
 };
 
-async function searchEmbedded(
+export async function searchEmbedded(
   pkg: BackstagePackageJson,
   packagesToEmbed: string[],
   monoRepoPackages: Packages,
   req: NodeRequire,
   alreadyResolved: ResolvedEmbedded[],
+  packagesToEmbedImplicitly: string[] = [],
 ): Promise<ResolvedEmbedded[]> {
   const embedded = [...packagesToEmbed];
+  // The common and node libraries of a plugin are only embedded implicitly
+  // when they are private dependencies, not when the host has to provide them
+  const implicitlyEmbedded = [...packagesToEmbedImplicitly];
   let regex: RegExp | undefined = undefined;
   switch (pkg.backstage?.role) {
     case 'backend-plugin':
@@ -538,26 +718,31 @@ async function searchEmbedded(
       commonPackage !== pkg.name &&
       !alreadyResolved.find(r => r.packageName === commonPackage)
     ) {
-      embedded.push(commonPackage);
+      implicitlyEmbedded.push(commonPackage);
     }
     const nodePackage = pkg.name.replace(regex, '-node');
     if (
       nodePackage !== pkg.name &&
       !alreadyResolved.find(r => r.packageName === nodePackage)
     ) {
-      embedded.push(nodePackage);
+      implicitlyEmbedded.push(nodePackage);
     }
   }
 
   const resolved: ResolvedEmbedded[] = [];
-  if (pkg.dependencies) {
-    for (const dep in pkg.dependencies || []) {
-      if (!Object.prototype.hasOwnProperty.call(pkg.dependencies, dep)) {
+  const dependencies = dependencyVersionSpecs(pkg);
+  if (Object.keys(dependencies).length > 0) {
+    for (const dep in dependencies) {
+      if (!Object.prototype.hasOwnProperty.call(dependencies, dep)) {
         continue;
       }
 
-      if (embedded.includes(dep)) {
-        const dependencyVersion = pkg.dependencies[dep];
+      if (
+        embedded.includes(dep) ||
+        (implicitlyEmbedded.includes(dep) &&
+          (pkg.dependencies?.[dep] ?? pkg.optionalDependencies?.[dep]))
+      ) {
+        const dependencyVersion = dependencies[dep];
 
         let effectiveVersion = dependencyVersion;
         if (isBackstageVersionSpec(dependencyVersion)) {
@@ -668,6 +853,7 @@ async function searchEmbedded(
               monoRepoPackages,
               createRequire(path.join(resolvedPackageDir, 'package.json')),
               [...alreadyResolved, ...resolved],
+              implicitlyEmbedded,
             )),
           );
         }
@@ -677,7 +863,7 @@ async function searchEmbedded(
   return resolved;
 }
 
-function checkWorkspacePackageVersion(
+export function checkWorkspacePackageVersion(
   requiredVersionSpec: string,
   pkg: { version: string; dir: string },
 ): boolean {
@@ -696,11 +882,12 @@ function checkWorkspacePackageVersion(
  * Resolves workspace: and backstage: protocol version specs to concrete versions.
  *
  * - workspace:^ / workspace:~ / workspace:* => lookup in embedded, then monoRepoPackages
- * - backstage:^ => delegate to resolveBackstageVersion()
+ * - backstage:^ / backstage:~ / backstage:* / backstage:<release> => delegate to resolveBackstageVersion()
  * - anything else => undefined (no transformation needed)
  *
  * Preserves the range prefix: workspace:^ => ^1.5.0, workspace:~ => ~1.5.0,
- * workspace:* => 1.5.0, backstage:^ => ^1.5.0.
+ * workspace:* => 1.5.0, backstage:^ => ^1.5.0, backstage:~ => ~1.5.0,
+ * backstage:* => 1.5.0.
  */
 async function resolveProtocolVersion(
   dep: string,
@@ -785,6 +972,7 @@ export function customizeForDynamicUse(options: {
   rootResolutions?: Record<string, string> | undefined;
   additionalResolutions?: { [key: string]: any } | undefined;
   after?: ((pkg: BackstagePackageJson) => void) | undefined;
+  report?: ExportReport | undefined;
 }): (dynamicPkgPath: string) => Promise<void> {
   return async (dynamicPkgPath: string): Promise<void> => {
     const dynamicPkgContent = await fs.readFile(dynamicPkgPath, 'utf8');
@@ -803,6 +991,14 @@ export function customizeForDynamicUse(options: {
       f => !f.startsWith('dist-dynamic/'),
     );
 
+    const customizationReport: ExportReportCustomizedPackage = {
+      name: pkgToCustomize.name,
+      movedToPeerDependencies: {},
+      resolvedVersions: {},
+      pinnedResolutions: {},
+      rootResolutions: {},
+    };
+
     // Collect exact versions for pinning in resolutions
     const pinnedResolutions: Record<string, string> = {};
     const embeddedNames = new Set(options.embedded.map(e => e.packageName));
@@ -829,6 +1025,10 @@ export function customizeForDynamicUse(options: {
         );
         if (result) {
           pkgToCustomize.dependencies[dep] = result.resolved;
+          customizationReport.resolvedVersions[dep] = {
+            from: dependencyVersionSpec,
+            to: result.resolved,
+          };
           if (!embeddedNames.has(dep)) {
             pinnedResolutions[dep] = result.exact;
           }
@@ -840,6 +1040,8 @@ export function customizeForDynamicUse(options: {
           pkgToCustomize.peerDependencies ||= {};
           pkgToCustomize.peerDependencies[dep] =
             pkgToCustomize.dependencies[dep];
+          customizationReport.movedToPeerDependencies[dep] =
+            pkgToCustomize.dependencies[dep];
           delete pkgToCustomize.dependencies[dep];
 
           continue;
@@ -862,25 +1064,29 @@ export function customizeForDynamicUse(options: {
       }
     }
 
-    // Resolve workspace: and backstage: in pre-existing peerDependencies
-    if (pkgToCustomize.peerDependencies) {
-      for (const dep in pkgToCustomize.peerDependencies) {
-        if (
-          !Object.prototype.hasOwnProperty.call(
-            pkgToCustomize.peerDependencies,
-            dep,
-          )
-        )
+    // Resolve workspace: and backstage: in pre-existing peerDependencies and optionalDependencies
+    for (const field of ['peerDependencies', 'optionalDependencies'] as const) {
+      const fieldDependencies = pkgToCustomize[field];
+      if (!fieldDependencies) {
+        continue;
+      }
+      for (const dep in fieldDependencies) {
+        if (!Object.prototype.hasOwnProperty.call(fieldDependencies, dep))
           continue;
+        const versionSpec = fieldDependencies[dep];
         const result = await resolveProtocolVersion(
           dep,
-          pkgToCustomize.peerDependencies[dep],
+          versionSpec,
           options.embedded,
           options.monoRepoPackages,
           pkgToCustomize.name,
         );
         if (result) {
-          pkgToCustomize.peerDependencies[dep] = result.resolved;
+          fieldDependencies[dep] = result.resolved;
+          customizationReport.resolvedVersions[dep] = {
+            from: versionSpec,
+            to: result.resolved,
+          };
           if (!embeddedNames.has(dep)) {
             pinnedResolutions[dep] = result.exact;
           }
@@ -905,6 +1111,7 @@ export function customizeForDynamicUse(options: {
 
         const allDeps: Record<string, string> = {
           ...wsPkg.packageJson.dependencies,
+          ...wsPkg.packageJson.optionalDependencies,
           ...wsPkg.packageJson.peerDependencies,
         };
         for (const [depName, depVersion] of Object.entries(allDeps)) {
@@ -987,6 +1194,12 @@ export function customizeForDynamicUse(options: {
       ...(options.additionalResolutions || {}),
     };
 
+    if (options.report) {
+      customizationReport.pinnedResolutions = pinnedResolutions;
+      customizationReport.rootResolutions = filteredRootResolutions;
+      options.report.customizedPackages.push(customizationReport);
+    }
+
     if (options.after) {
       options.after(pkgToCustomize);
     }
@@ -998,11 +1211,41 @@ export function customizeForDynamicUse(options: {
   };
 }
 
-type SharedPackagesRules = {
+export type SharedPackagesRules = {
   include: (string | RegExp)[];
   exclude: (string | RegExp)[];
 };
 
+/**
+ * Returns the rules of the packages moved to the peer dependencies of a
+ * dynamic backend plugin: the `@backstage` packages and the `--shared-package`
+ * ones, except the `!`-prefixed and the embedded ones. `/`-delimited values are
+ * regular expressions.
+ */
+export function createSharedPackagesRules(
+  sharedPackageOptions: string[],
+  embeddedPackages: string[],
+): SharedPackagesRules {
+  const stringOrRegexp = (s: string) =>
+    s.startsWith('/') && s.endsWith('/') ? new RegExp(s.slice(1, -1)) : s;
+
+  return {
+    include: [
+      /@backstage\//,
+      ...sharedPackageOptions
+        .filter(p => !p.startsWith('!'))
+        .map(stringOrRegexp),
+    ],
+    exclude: [
+      ...sharedPackageOptions
+        .filter(p => p.startsWith('!'))
+        .map(p => p.slice(1))
+        .map(stringOrRegexp),
+      ...embeddedPackages,
+    ],
+  };
+}
+
 function isPackageShared(
   pkgName: string,
   rules: SharedPackagesRules | undefined,
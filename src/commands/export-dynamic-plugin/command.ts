@@ -14,40 +14,155 @@
  * limitations under the License.
  */
 
-import { PackageRoles } from '@backstage/cli-node';
+import { PackageRole, PackageRoles } from '@backstage/cli-node';
 
 import chalk from 'chalk';
-import { OptionValues } from 'commander';
+import { Command, OptionValues } from 'commander';
 import fs from 'fs-extra';
-import * as semver from 'semver';
 
 import path from 'path';
 
+import {
+  checkSupportedVersions,
+  getWorkspaceBackstageVersion,
+} from '../../lib/backstageVersion';
+import {
+  checkHostCompatibility,
+  CompatibilityTarget,
+  formatCompatibilityTarget,
+  formatIncompatiblePackages,
+  resolveCompatibilityTarget,
+} from '../../lib/compatibility';
 import { paths } from '../../lib/paths';
 import { getConfigSchema } from '../../lib/schema/collect';
 import { Task } from '../../lib/tasks';
-import { backend } from './backend';
-import { applyDevOptions } from './dev';
-import { frontend } from './frontend';
+import { backend, BackendExportStages } from './backend';
+import { loadExportConfig, mergeExportConfig } from './config';
+import { applyDevOptions, resolveDynamicPluginsRoot } from './dev';
+import { frontend, watchFrontend } from './frontend';
+import {
+  createExportReport,
+  ExportReport,
+  recordExportFailure,
+  writeExportReport,
+} from './report';
+import { readScalprumConfig } from './scalprum';
+import { watchBackend } from './watch';
 
-export async function command(opts: OptionValues): Promise<void> {
+export async function command(
+  cliOpts: OptionValues,
+  cmd?: Command,
+): Promise<void> {
   const rawPkg = await fs.readJson(paths.resolveTarget('package.json'));
+  let opts = cliOpts;
+  const exportConfig = await loadExportConfig(paths.targetDir);
+  if (exportConfig) {
+    Task.log(
+      `Using export configuration from ${chalk.cyan(exportConfig.source)}`,
+    );
+    opts = mergeExportConfig(cliOpts, exportConfig.config, option => {
+      const source = cmd?.getOptionValueSource(option);
+      return source !== undefined && source !== 'default';
+    });
+  }
+
   const role = PackageRoles.getRoleFromPackage(rawPkg);
   if (!role) {
     throw new Error(`Target package must have 'backstage.role' set`);
   }
 
+  if (opts.printScalprumConfig) {
+    if (role !== 'frontend-plugin' && role !== 'frontend-plugin-module') {
+      throw new Error(
+        'The --print-scalprum-config option is only supported for frontend plugins',
+      );
+    }
+    const { scalprum } = await readScalprumConfig(opts, rawPkg);
+    process.stdout.write(`${JSON.stringify(scalprum, null, 2)}\n`);
+    return;
+  }
+
+  if (opts.reloadMarker && !(opts.watch && opts.dev)) {
+    throw new Error(
+      'The --reload-marker option requires the --watch and --dev options',
+    );
+  }
+
+  if (!['fail', 'warn', 'off'].includes(opts.configSchemaConflicts)) {
+    throw new Error(
+      `Invalid --config-schema-conflicts value '${opts.configSchemaConflicts}', expected 'fail', 'warn' or 'off'`,
+    );
+  }
+
+  const report = opts.report
+    ? createExportReport({ name: rawPkg.name, version: rawPkg.version, role })
+    : undefined;
+  let targetPath: string;
+  try {
+    targetPath = await exportPlugin(opts, rawPkg, role, report);
+  } catch (e) {
+    if (report) {
+      recordExportFailure(report, e);
+    }
+    throw e;
+  } finally {
+    if (report) {
+      const reportFile = paths.resolveTarget(opts.report);
+      await writeExportReport(reportFile, report);
+      Task.log(`Export report written to ${chalk.cyan(reportFile)}`);
+    }
+  }
+
+  if (!opts.watch) {
+    return;
+  }
+  if (role === 'frontend-plugin' || role === 'frontend-plugin-module') {
+    await watchFrontend(opts, targetPath);
+    return;
+  }
+  await watchBackend(async stages => {
+    await exportPlugin(
+      // Installing changed dependencies requires a new `yarn.lock` file
+      { ...opts, clean: stages === 'all' },
+      await fs.readJson(paths.resolveTarget('package.json')),
+      role,
+      undefined,
+      stages,
+    );
+    if (opts.reloadMarker) {
+      const { dynamicPluginsRootPath } = await resolveDynamicPluginsRoot(opts);
+      const reloadMarker = path.resolve(
+        dynamicPluginsRootPath,
+        opts.reloadMarker,
+      );
+      await fs.outputFile(reloadMarker, new Date().toISOString());
+      Task.log(`Touched reload marker ${chalk.cyan(reloadMarker)}`);
+    }
+  });
+}
+
+async function exportPlugin(
+  opts: OptionValues,
+  rawPkg: any,
+  role: PackageRole,
+  report: ExportReport | undefined,
+  stages: BackendExportStages = 'all',
+): Promise<string> {
+  const compatibilityTarget = resolveCompatibilityTarget({
+    backstageVersion: opts.targetBackstageVersion,
+    rhdhVersion: opts.rhdhVersion,
+  });
   let targetPath: string;
   const roleInfo = PackageRoles.getRoleInfo(role);
   let configSchemaPaths: string[];
   if (role === 'backend-plugin' || role === 'backend-plugin-module') {
-    targetPath = await backend(opts);
+    targetPath = await backend(opts, report, stages);
     configSchemaPaths = [
       path.join(targetPath, 'dist/configSchema.json'),
       path.join(targetPath, 'dist/.config-schema.json'),
     ];
   } else if (role === 'frontend-plugin' || role === 'frontend-plugin-module') {
-    targetPath = await frontend(roleInfo, opts);
+    targetPath = await frontend(roleInfo, opts, report);
     configSchemaPaths = [];
     if (fs.existsSync(path.join(targetPath, 'dist-scalprum'))) {
       configSchemaPaths.push(
@@ -63,11 +178,20 @@ export async function command(opts: OptionValues): Promise<void> {
     );
   }
 
+  if (report) {
+    report.target = path.relative(paths.targetDir, targetPath);
+    report.configSchemaPaths = configSchemaPaths.map(p =>
+      path.relative(targetPath, p),
+    );
+  }
+
   Task.log(
     `Saving self-contained config schema in ${chalk.cyan(configSchemaPaths.join(' and '))}`,
   );
 
-  const configSchema = await getConfigSchema(rawPkg.name);
+  const configSchema = await getConfigSchema(rawPkg.name, {
+    conflictCheck: opts.configSchemaConflicts,
+  });
   for (const configSchemaPath of configSchemaPaths) {
     await fs.writeJson(paths.resolveTarget(configSchemaPath), configSchema, {
       encoding: 'utf8',
@@ -75,35 +199,70 @@ export async function command(opts: OptionValues): Promise<void> {
     });
   }
 
-  await checkBackstageSupportedVersions(targetPath);
+  const supportedVersions = await checkBackstageSupportedVersions(targetPath);
+  if (report) {
+    report.supportedVersions = supportedVersions;
+    report.features = (
+      await fs.readJson(path.join(targetPath, 'package.json'))
+    ).backstage?.features;
+  }
+
+  if (compatibilityTarget) {
+    await checkCompatibility(targetPath, compatibilityTarget, report);
+  }
 
   await applyDevOptions(opts, rawPkg.name, roleInfo, targetPath);
+  return targetPath;
 }
 
-async function checkBackstageSupportedVersions(targetPath: string) {
+/**
+ * Checks that the host release satisfies the `@backstage/*` peer
+ * dependencies of the exported package.
+ */
+async function checkCompatibility(
+  targetPath: string,
+  target: CompatibilityTarget,
+  report: ExportReport | undefined,
+) {
+  Task.log(
+    `Checking the ${chalk.cyan('@backstage/*')} peer dependencies against ${chalk.cyan(
+      formatCompatibilityTarget(target),
+    )}`,
+  );
+  const incompatiblePackages = await checkHostCompatibility(targetPath, target);
+  if (report) {
+    report.compatibility = { target, incompatiblePackages };
+  }
+  if (incompatiblePackages.length > 0) {
+    throw new Error(
+      `The dynamic plugin is not compatible with ${formatCompatibilityTarget(
+        target,
+      )}:${formatIncompatiblePackages(incompatiblePackages)}`,
+    );
+  }
+}
+
+async function checkBackstageSupportedVersions(
+  targetPath: string,
+): Promise<string | undefined> {
   const targetPackageFile = path.join(targetPath, 'package.json');
   const targetPackage = await fs.readJSON(targetPackageFile);
   const supportedVersions: string | undefined =
     targetPackage.backstage?.['supported-versions'];
-  const backstageJson = path.join(paths.targetRoot, '/backstage.json');
-  if (!fs.existsSync(backstageJson)) {
-    return;
+  const backstageVersion = await getWorkspaceBackstageVersion();
+  if (!backstageVersion) {
+    return supportedVersions;
   }
-  const backstageVersion: string = (await fs.readJSON(backstageJson)).version;
   if (supportedVersions) {
-    const singleVersionInSupportedVersions = semver.valid(
+    const compatibility = checkSupportedVersions(
       supportedVersions,
-      true,
+      backstageVersion,
     );
-    const supportedVersionsRange = singleVersionInSupportedVersions
-      ? `~${supportedVersions}`
-      : supportedVersions;
-
-    if (semver.subset(`~${backstageVersion}`, supportedVersionsRange)) {
-      return;
+    if (compatibility === 'compatible') {
+      return supportedVersions;
     }
     const errorMessage = `The ${chalk.cyan('backstage.supported-versions')} field in the package descriptor is not compatible with the backstage version specified in the ${chalk.cyan('backstage.json')} file: ${chalk.cyan(supportedVersions)} vs ${chalk.cyan(backstageVersion)}.`;
-    if (!singleVersionInSupportedVersions) {
+    if (compatibility === 'incompatible') {
       throw new Error(errorMessage);
     }
     Task.log(
@@ -120,4 +279,5 @@ async function checkBackstageSupportedVersions(targetPath: string) {
   await fs.writeJSON(targetPackageFile, targetPackage, {
     spaces: 2,
   });
+  return backstageVersion;
 }
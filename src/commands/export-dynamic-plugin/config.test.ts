@@ -0,0 +1,104 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import os from 'node:os';
+import path from 'node:path';
+
+import { loadExportConfig, mergeExportConfig } from './config';
+
+describe('loadExportConfig', () => {
+  let packageDir: string;
+
+  beforeEach(async () => {
+    packageDir = await fs.mkdtemp(path.join(os.tmpdir(), 'export-config-'));
+    await fs.writeJson(path.join(packageDir, 'package.json'), {
+      name: '@backstage/plugin-example-backend',
+      rhdh: { export: { embedPackage: ['from-package-json'] } },
+    });
+  });
+
+  afterEach(async () => {
+    await fs.remove(packageDir);
+  });
+
+  it('reads the rhdh.export field of the package.json file', async () => {
+    await expect(loadExportConfig(packageDir)).resolves.toEqual({
+      config: { embedPackage: ['from-package-json'] },
+      source: `${path.join(packageDir, 'package.json')}#rhdh.export`,
+    });
+  });
+
+  it('prefers the configuration file', async () => {
+    await fs.writeFile(
+      path.join(packageDir, 'rhdh-cli.config.yaml'),
+      'export:\n  sharedPackage:\n    - "!@backstage/plugin-example-node"\n  autoEmbed: true\n',
+    );
+
+    await expect(loadExportConfig(packageDir)).resolves.toEqual({
+      config: {
+        sharedPackage: ['!@backstage/plugin-example-node'],
+        autoEmbed: true,
+      },
+      source: path.join(packageDir, 'rhdh-cli.config.yaml'),
+    });
+  });
+
+  it('returns undefined without configuration', async () => {
+    await fs.writeJson(path.join(packageDir, 'package.json'), {
+      name: '@backstage/plugin-example-backend',
+    });
+
+    await expect(loadExportConfig(packageDir)).resolves.toBeUndefined();
+  });
+
+  it('rejects unknown keys and invalid values', async () => {
+    await fs.writeJson(path.join(packageDir, 'rhdh-cli.config.json'), {
+      export: { embedPackages: ['typo'], minify: 'yes' },
+    });
+
+    await expect(loadExportConfig(packageDir)).rejects.toThrow(
+      /Invalid export configuration in .*rhdh-cli\.config\.json.*:\n- \/export: unknown key 'embedPackages'\n- \/export\/minify: must be boolean/,
+    );
+  });
+});
+
+describe('mergeExportConfig', () => {
+  it('combines lists and keeps the options set on the command line', () => {
+    const merged = mergeExportConfig(
+      {
+        embedPackage: ['b', 'c'],
+        install: true,
+        minify: false,
+        generateScalprumAssets: true,
+      },
+      {
+        embedPackage: ['a', 'b'],
+        minify: true,
+        generateScalprumAssets: false,
+      },
+      option => option === 'minify',
+    );
+
+    expect(merged).toEqual({
+      embedPackage: ['a', 'b', 'c'],
+      install: true,
+      minify: false,
+      generateScalprumAssets: false,
+    });
+  });
+});
@@ -0,0 +1,205 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import Ajv, { ErrorObject } from 'ajv';
+import chalk from 'chalk';
+import { OptionValues } from 'commander';
+import fs from 'fs-extra';
+import YAML from 'yaml';
+
+import path from 'path';
+
+import { SIZE_PATTERN, SizeBudgets } from '../../lib/bundler/sizeBudgets';
+
+/**
+ * Files of the plugin package directory in which the export configuration
+ * is looked up, in this order, before the `rhdh.export` field of the
+ * `package.json` file.
+ */
+export const EXPORT_CONFIG_FILES = [
+  'rhdh-cli.config.json',
+  'rhdh-cli.config.yaml',
+  'rhdh-cli.config.yml',
+];
+
+/**
+ * Export options that can be set in a configuration file. The keys are the
+ * camel-cased names of the `plugin export` options.
+ */
+export type ExportConfig = {
+  embedPackage?: string[];
+  sharedPackage?: string[];
+  allowNativePackage?: string[];
+  suppressNativePackage?: string[];
+  ignoreVersionCheck?: string[];
+  autoEmbed?: boolean;
+  minify?: boolean;
+  scalprumConfig?: string;
+  rhdhVersion?: string;
+  targetBackstageVersion?: string;
+  singletonCheck?: 'fail' | 'warn' | 'off';
+  configSchemaConflicts?: 'fail' | 'warn' | 'off';
+  sizeBudgets?: SizeBudgets;
+  trackDynamicManifestAndLockFile?: boolean;
+  generateScalprumAssets?: boolean;
+  generateModuleFederationAssets?: boolean;
+};
+
+/** Options whose configured values are combined with the command line ones */
+const LIST_OPTIONS = [
+  'embedPackage',
+  'sharedPackage',
+  'allowNativePackage',
+  'suppressNativePackage',
+  'ignoreVersionCheck',
+] as const;
+
+const packageList = {
+  type: 'array',
+  items: { type: 'string', minLength: 1 },
+};
+
+const size = {
+  anyOf: [
+    { type: 'integer', minimum: 0 },
+    { type: 'string', pattern: SIZE_PATTERN },
+  ],
+};
+
+const exportConfigSchema = {
+  type: 'object',
+  properties: {
+    embedPackage: packageList,
+    sharedPackage: packageList,
+    allowNativePackage: packageList,
+    suppressNativePackage: packageList,
+    ignoreVersionCheck: packageList,
+    autoEmbed: { type: 'boolean' },
+    minify: { type: 'boolean' },
+    scalprumConfig: { type: 'string' },
+    rhdhVersion: { type: 'string' },
+    targetBackstageVersion: { type: 'string' },
+    singletonCheck: { enum: ['fail', 'warn', 'off'] },
+    configSchemaConflicts: { enum: ['fail', 'warn', 'off'] },
+    sizeBudgets: {
+      type: 'object',
+      properties: {
+        totalGzipSize: size,
+        largestChunkGzipSize: size,
+        chunkCount: { type: 'integer', minimum: 0 },
+        entryScriptGzipSize: size,
+      },
+      additionalProperties: false,
+    },
+    trackDynamicManifestAndLockFile: { type: 'boolean' },
+    generateScalprumAssets: { type: 'boolean' },
+    generateModuleFederationAssets: { type: 'boolean' },
+  },
+  additionalProperties: false,
+};
+
+const configFileSchema = {
+  type: 'object',
+  properties: {
+    export: exportConfigSchema,
+  },
+  additionalProperties: false,
+};
+
+export function formatSchemaError(error: ErrorObject): string {
+  const location = error.instancePath || '/';
+  if (error.keyword === 'additionalProperties') {
+    return `${location}: unknown key '${error.params.additionalProperty}'`;
+  }
+  return `${location}: ${error.message}`;
+}
+
+function validate(schema: object, data: unknown, source: string) {
+  const ajv = new Ajv({ allErrors: true });
+  const valid = ajv.validate(schema, data);
+  if (!valid) {
+    throw new Error(
+      `Invalid export configuration in ${chalk.cyan(source)}:${[
+        '',
+        ...(ajv.errors ?? []).map(formatSchemaError),
+      ].join('\n- ')}`,
+    );
+  }
+}
+
+async function readConfigFile(file: string): Promise<unknown> {
+  const content = await fs.readFile(file, 'utf8');
+  try {
+    return file.endsWith('.json') ? JSON.parse(content) : YAML.parse(content);
+  } catch (e) {
+    throw new Error(`Failed to parse ${chalk.cyan(file)}: ${e}`);
+  }
+}
+
+/**
+ * Loads and validates the export configuration of the plugin package in the
+ * given directory, from the first of the {@link EXPORT_CONFIG_FILES} that
+ * exists, or else from the `rhdh.export` field of its `package.json` file.
+ */
+export async function loadExportConfig(
+  packageDir: string,
+): Promise<{ config: ExportConfig; source: string } | undefined> {
+  for (const fileName of EXPORT_CONFIG_FILES) {
+    const file = path.join(packageDir, fileName);
+    if (!(await fs.pathExists(file))) {
+      continue;
+    }
+    // An empty YAML file is parsed as null
+    const content = (await readConfigFile(file)) ?? {};
+    validate(configFileSchema, content, file);
+    return {
+      config: (content as { export?: ExportConfig }).export ?? {},
+      source: file,
+    };
+  }
+
+  const pkg = await fs.readJson(path.join(packageDir, 'package.json'));
+  if (pkg.rhdh?.export === undefined) {
+    return undefined;
+  }
+  const source = `${path.join(packageDir, 'package.json')}#rhdh.export`;
+  validate(exportConfigSchema, pkg.rhdh.export, source);
+  return { config: pkg.rhdh.export, source };
+}
+
+/**
+ * Merges the export configuration with the command line options: lists are
+ * combined with the command line ones, and other options are only taken from
+ * the configuration when they were not set on the command line.
+ */
+export function mergeExportConfig(
+  opts: OptionValues,
+  config: ExportConfig,
+  isSetOnCommandLine: (option: string) => boolean,
+): OptionValues {
+  const merged: OptionValues = { ...opts };
+  for (const [option, value] of Object.entries(config)) {
+    if ((LIST_OPTIONS as readonly string[]).includes(option)) {
+      const fromCommandLine = Array.isArray(opts[option]) ? opts[option] : [];
+      merged[option] = [
+        ...new Set([...(value as string[]), ...fromCommandLine]),
+      ];
+    } else if (!isSetOnCommandLine(option)) {
+      merged[option] = value;
+    }
+  }
+  return merged;
+}
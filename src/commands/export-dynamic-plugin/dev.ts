@@ -42,36 +42,8 @@ export async function applyDevOptions(
       );
     }
 
-    let dynamicPluginsRootPath = opts.dynamicPluginsRoot as string | undefined;
-    let shouldSymlink = false;
-    if (!dynamicPluginsRootPath) {
-      shouldSymlink = true;
-      const appConfigs = await loadConfig({
-        configRoot: paths.targetRoot,
-        configTargets: [],
-      });
-      const fullConfig = ConfigReader.fromConfigs(appConfigs.appConfigs);
-
-      const dynamicPlugins = fullConfig.getOptional('dynamicPlugins');
-      if (
-        typeof dynamicPlugins === 'object' &&
-        dynamicPlugins !== null &&
-        'rootDirectory' in dynamicPlugins &&
-        typeof dynamicPlugins.rootDirectory === 'string'
-      ) {
-        dynamicPluginsRootPath = path.isAbsolute(dynamicPlugins.rootDirectory)
-          ? dynamicPlugins.rootDirectory
-          : paths.resolveTargetRoot(dynamicPlugins.rootDirectory);
-      } else {
-        throw new Error(
-          `${chalk.cyan(
-            'dynamicPlugins.rootDirectory',
-          )} should be configured in the app config in order to use the ${chalk.cyan(
-            '--dev',
-          )} option`,
-        );
-      }
-    }
+    const { dynamicPluginsRootPath, shouldSymlink } =
+      await resolveDynamicPluginsRoot(opts);
     const destFolderPath = path.resolve(
       dynamicPluginsRootPath,
       pkgName.replace(/^@/, '').replace(/\//, '-') +
@@ -104,3 +76,47 @@ export async function applyDevOptions(
     }
   }
 }
+
+/**
+ * Returns the dynamic plugins root folder given with `--dynamic-plugins-root`,
+ * in which the plugin is copied, or else the one configured in the app config,
+ * in which the plugin is linked.
+ */
+export async function resolveDynamicPluginsRoot(
+  opts: OptionValues,
+): Promise<{ dynamicPluginsRootPath: string; shouldSymlink: boolean }> {
+  if (opts.dynamicPluginsRoot) {
+    return {
+      dynamicPluginsRootPath: opts.dynamicPluginsRoot as string,
+      shouldSymlink: false,
+    };
+  }
+
+  const appConfigs = await loadConfig({
+    configRoot: paths.targetRoot,
+    configTargets: [],
+  });
+  const fullConfig = ConfigReader.fromConfigs(appConfigs.appConfigs);
+
+  const dynamicPlugins = fullConfig.getOptional('dynamicPlugins');
+  if (
+    typeof dynamicPlugins === 'object' &&
+    dynamicPlugins !== null &&
+    'rootDirectory' in dynamicPlugins &&
+    typeof dynamicPlugins.rootDirectory === 'string'
+  ) {
+    return {
+      dynamicPluginsRootPath: path.isAbsolute(dynamicPlugins.rootDirectory)
+        ? dynamicPlugins.rootDirectory
+        : paths.resolveTargetRoot(dynamicPlugins.rootDirectory),
+      shouldSymlink: true,
+    };
+  }
+  throw new Error(
+    `${chalk.cyan(
+      'dynamicPlugins.rootDirectory',
+    )} should be configured in the app config in order to use the ${chalk.cyan(
+      '--dev',
+    )} option`,
+  );
+}
@@ -27,6 +27,11 @@ import {
 import chalk from 'chalk';
 
 import { Task } from '../../lib/tasks';
+import { resolveExposedModule } from './scalprum';
+import { ExportedSymbol, ExposedModuleExports } from './wiring';
+
+/** Kinds of the exported declarations which only exist as types */
+const TYPE_DECLARATION_KINDS = ['InterfaceDeclaration', 'TypeAliasDeclaration'];
 
 /**
  * Detects backstage feature types for all entry points in a package by
@@ -84,3 +89,52 @@ export async function detectBackstageFeatures(
 
   return Object.keys(features).length > 0 ? features : undefined;
 }
+
+/**
+ * Lists the values exported by the exposed modules of a frontend plugin,
+ * with the same ts-morph type resolution as {@link detectBackstageFeatures},
+ * to propose their wiring in `dynamic-plugins.yaml`.
+ */
+export async function detectExposedModuleExports(
+  exposedModules: Record<string, string>,
+  packageDir: string,
+): Promise<ExposedModuleExports[]> {
+  const project = await createTypeDistProject();
+  const modules: ExposedModuleExports[] = [];
+
+  for (const [module, request] of Object.entries(exposedModules)) {
+    const file = await resolveExposedModule(packageDir, request);
+    if (!file) {
+      continue;
+    }
+    try {
+      const exports: ExportedSymbol[] = [];
+      const sourceFile = project.addSourceFileAtPath(file);
+      for (const [name, declarations] of sourceFile.getExportedDeclarations()) {
+        const declaration = declarations[0];
+        if (
+          name === 'default' ||
+          !declaration ||
+          TYPE_DECLARATION_KINDS.includes(declaration.getKindName())
+        ) {
+          continue;
+        }
+        const type = declaration.getType();
+        exports.push({
+          name,
+          type: type.getText(declaration),
+          callable: type.getCallSignatures().length > 0,
+        });
+      }
+      modules.push({ module, exports });
+    } catch (error) {
+      Task.log(
+        chalk.yellow(
+          `Failed to list the exports of exposed module ${chalk.cyan(module)}: ${error}`,
+        ),
+      );
+    }
+  }
+
+  return modules;
+}
@@ -14,7 +14,7 @@
  * limitations under the License.
  */
 
-import { PackageRoleInfo } from '@backstage/cli-node';
+import { BackstagePackageJson, PackageRoleInfo } from '@backstage/cli-node';
 import { buildFrontend } from '@backstage/cli-module-build/dist/lib/buildFrontend.cjs.js';
 
 import { getPackages } from '@manypkg/get-packages';
@@ -25,11 +25,37 @@ import fs from 'fs-extra';
 import path from 'path';
 
 import { buildScalprumPlugin } from '../../lib/builder/buildScalprumPlugin';
+import { AssetServer, serveAssets } from '../../lib/bundler/assetServer';
+import { watchScalprumBundle } from '../../lib/bundler/bundlePlugin';
+import {
+  applySharedModulesOverrides,
+  RHDH_SHARED_MODULES,
+  SharedModules,
+} from '../../lib/bundler/sharedModules';
+import {
+  AssetSizes,
+  checkSizeBudgets,
+  formatSize,
+  measureAssets,
+  SizeBudgets,
+} from '../../lib/bundler/sizeBudgets';
+import { getEnvironmentParallelism } from '../../lib/parallel';
 import { productionPack } from '../../lib/packager/productionPack';
 import { paths } from '../../lib/paths';
 import { Task } from '../../lib/tasks';
 import { customizeForDynamicUse, getMonorepoRootResolutions } from './backend';
-import { detectBackstageFeatures } from './features';
+import {
+  detectBackstageFeatures,
+  detectExposedModuleExports,
+} from './features';
+import { ExportReport } from './report';
+import {
+  readScalprumConfig,
+  ScalprumConfig,
+  validateScalprumConfig,
+} from './scalprum';
+import { waitForInterrupt } from './watch';
+import { createWiringSkeleton, WIRING_SKELETON_FILE } from './wiring';
 
 function isTruthyCiEnv(value: string | undefined): boolean {
   if (value === undefined) {
@@ -42,9 +68,10 @@ function isTruthyCiEnv(value: string | undefined): boolean {
 export async function frontend(
   _: PackageRoleInfo,
   opts: OptionValues,
+  report?: ExportReport,
 ): Promise<string> {
   const originalPkg = await fs.readJson(paths.resolveTarget('package.json'));
-  const { name, version, scalprum: scalprumInline, files } = originalPkg;
+  const { name, version, files } = originalPkg;
 
   if (!opts.generateScalprumAssets && !opts.generateModuleFederationAssets) {
     throw new Error(
@@ -52,6 +79,36 @@ export async function frontend(
     );
   }
 
+  if (!['fail', 'warn', 'off'].includes(opts.singletonCheck)) {
+    throw new Error(
+      `Invalid --singleton-check value '${opts.singletonCheck}', expected 'fail', 'warn' or 'off'`,
+    );
+  }
+
+  if (opts.watch && !opts.generateScalprumAssets) {
+    throw new Error(
+      'The --watch option generates the dynamic frontend plugin assets through Scalprum, and cannot be used with --no-generate-scalprum-assets.',
+    );
+  }
+
+  if (
+    opts.watch &&
+    !(/^\d+$/.test(String(opts.watchPort)) && Number(opts.watchPort) <= 65535)
+  ) {
+    throw new Error(
+      `Invalid --watch-port value '${opts.watchPort}', expected a port number between 0 and 65535`,
+    );
+  }
+
+  // Resolved first so that an invalid scalprum config fails before bundling
+  const scalprumBuild =
+    opts.generateScalprumAssets && !opts.watch
+      ? await resolveScalprumBuild(opts, originalPkg)
+      : undefined;
+
+  // Build output directories whose sizes are checked
+  const assetDirs: string[] = [];
+
   if (opts.generateModuleFederationAssets) {
     if (opts.clean) {
       await fs.remove(path.join(paths.targetDir, 'dist'));
@@ -74,6 +131,7 @@ export async function frontend(
         writeStats: false,
         isModuleFederationRemote: true,
       });
+      assetDirs.push(path.join(paths.targetDir, 'dist'));
     } finally {
       if (unsetCiForMfBuild) {
         if (previousCi === undefined) {
@@ -146,6 +204,7 @@ export async function frontend(
       files,
     },
     rootResolutions,
+    report,
     after: detectedFeatures
       ? pkg => {
           pkg.backstage = pkg.backstage ?? {};
@@ -156,56 +215,232 @@ export async function frontend(
 
   if (opts.generateScalprumAssets) {
     const resolvedScalprumDistPath = path.join(target, 'dist-scalprum');
-    Task.log(
-      `Generating dynamic frontend plugin assets in ${chalk.cyan(
-        resolvedScalprumDistPath,
-      )}`,
-    );
-
-    let scalprum: any = undefined;
-    if (opts.scalprumConfig) {
-      const scalprumConfigFile = paths.resolveTarget(opts.scalprumConfig);
-      Task.log(
-        `Using external scalprum config file: ${chalk.cyan(scalprumConfigFile)}`,
-      );
-      scalprum = await fs.readJson(scalprumConfigFile);
-    } else if (scalprumInline) {
-      Task.log(`Using scalprum config inlined in the 'package.json'`);
-      scalprum = scalprumInline;
+    if (!scalprumBuild) {
+      // The assets are built in development mode by `watchFrontend`
+      await fs.emptyDir(resolvedScalprumDistPath);
     } else {
-      let scalprumName;
-      if (name.includes('/')) {
-        const fragments = name.split('/');
-        scalprumName = `${fragments[0].replace('@', '')}.${fragments[1]}`;
-      } else {
-        scalprumName = name;
-      }
-      scalprum = {
-        name: scalprumName,
-        exposedModules: {
-          PluginRoot: './src/index.ts',
-        },
-      };
-      Task.log(`No scalprum config. Using default dynamic UI configuration:`);
-      Task.log(chalk.cyan(JSON.stringify(scalprum, null, 2)));
       Task.log(
-        `If you wish to change the defaults, add "scalprum" configuration to plugin "package.json" file, or use the '--scalprum-config' option to specify an external config.`,
+        `Generating dynamic frontend plugin assets in ${chalk.cyan(
+          resolvedScalprumDistPath,
+        )}`,
       );
+
+      const { scalprum, sharedModules } = scalprumBuild;
+
+      await fs.remove(resolvedScalprumDistPath);
+
+      await buildScalprumPlugin({
+        writeStats: Boolean(opts.stats),
+        configPaths: [],
+        targetDir: paths.targetDir,
+        pluginMetadata: {
+          ...scalprum,
+          version,
+        },
+        resolvedScalprumDistPath,
+        sharedModules,
+        singletonCheck: opts.singletonCheck,
+      });
+      assetDirs.push(resolvedScalprumDistPath);
+      await writeWiringSkeleton(scalprum, target);
     }
+  }
+
+  if (!opts.watch) {
+    await checkAssetSizes(opts, originalPkg, assetDirs);
+  }
+
+  return target;
+}
+
+/**
+ * Writes the wiring skeleton of the plugin, proposing its routes, mount points,
+ * API factories and icons from the exports of its exposed modules.
+ */
+async function writeWiringSkeleton(scalprum: ScalprumConfig, target: string) {
+  const modules = await detectExposedModuleExports(
+    scalprum.exposedModules,
+    paths.targetDir,
+  );
+  const skeletonFile = path.join(target, WIRING_SKELETON_FILE);
+  await fs.writeFile(
+    skeletonFile,
+    createWiringSkeleton(scalprum.name, modules),
+  );
+  Task.log(
+    `Wiring skeleton for dynamic-plugins.yaml written to ${chalk.cyan(
+      skeletonFile,
+    )}`,
+  );
+}
 
-    await fs.remove(resolvedScalprumDistPath);
+/**
+ * Measures the JavaScript assets of the given build output directories,
+ * writes them to the size report, and checks the size budgets of the export
+ * configuration.
+ */
+async function checkAssetSizes(
+  opts: OptionValues,
+  pkg: { name: string; version?: string },
+  assetDirs: string[],
+) {
+  if (assetDirs.length === 0 || (!opts.sizeBudgets && !opts.sizeReport)) {
+    return;
+  }
+  const budgets: SizeBudgets = opts.sizeBudgets ?? {};
+  const assets: Record<string, AssetSizes & { violations: string[] }> = {};
+  const violations: string[] = [];
+  for (const dir of assetDirs) {
+    const relativeDir = path
+      .relative(paths.targetDir, dir)
+      .split(path.sep)
+      .join('/');
+    const sizes = await measureAssets(dir);
+    const dirViolations = checkSizeBudgets(sizes, budgets);
+    assets[relativeDir] = { ...sizes, violations: dirViolations };
+    violations.push(...dirViolations.map(v => `${relativeDir}: ${v}`));
+    Task.log(
+      `Assets of ${chalk.cyan(relativeDir)}: ${
+        sizes.chunkCount
+      } chunks, ${formatSize(sizes.totalGzipSize)} gzipped${
+        sizes.largestChunk
+          ? `, largest chunk ${formatSize(sizes.largestChunk.gzipSize)}`
+          : ''
+      }${
+        sizes.entryScript
+          ? `, entry script ${formatSize(sizes.entryScript.gzipSize)}`
+          : ''
+      }`,
+    );
+  }
 
-    await buildScalprumPlugin({
-      writeStats: false,
-      configPaths: [],
-      targetDir: paths.targetDir,
-      pluginMetadata: {
-        ...scalprum,
-        version,
+  if (opts.sizeReport) {
+    const sizeReportFile = paths.resolveTarget(opts.sizeReport);
+    await fs.outputJson(
+      sizeReportFile,
+      {
+        package: { name: pkg.name, version: pkg.version },
+        budgets,
+        assets,
       },
+      { spaces: 2 },
+    );
+    Task.log(`Size report written to ${chalk.cyan(sizeReportFile)}`);
+  }
+
+  if (violations.length > 0) {
+    throw new Error(
+      `The dynamic frontend plugin assets exceed their size budgets:${[
+        '',
+        ...violations,
+      ].join('\n- ')}`,
+    );
+  }
+}
+
+async function resolveScalprumConfig(
+  opts: OptionValues,
+  originalPkg: BackstagePackageJson & { scalprum?: ScalprumConfig },
+): Promise<ScalprumConfig> {
+  const { scalprum, source } = await readScalprumConfig(opts, originalPkg);
+  if (source === 'package.json') {
+    Task.log(`Using scalprum config inlined in the 'package.json'`);
+  } else if (source) {
+    Task.log(`Using external scalprum config file: ${chalk.cyan(source)}`);
+  } else {
+    Task.log(
+      `No scalprum config. Using default dynamic UI configuration, exposing the entry points of the 'exports' field:`,
+    );
+    Task.log(chalk.cyan(JSON.stringify(scalprum, null, 2)));
+    Task.log(
+      `If you wish to change the defaults, add "scalprum" configuration to plugin "package.json" file, or use the '--scalprum-config' option to specify an external config. Use the '--print-scalprum-config' option to print the default configuration.`,
+    );
+  }
+  const { packages } = await getPackages(paths.targetDir);
+  await validateScalprumConfig(scalprum, {
+    packageDir: paths.targetDir,
+    source: source ?? 'the default scalprum config',
+    workspacePackages: packages,
+  });
+  return scalprum;
+}
+
+/**
+ * Splits the scalprum config into the plugin metadata and the additions and
+ * exclusions of shared modules, and applies them to the modules shared by the
+ * RHDH app.
+ */
+async function resolveScalprumBuild(
+  opts: OptionValues,
+  originalPkg: BackstagePackageJson & { scalprum?: ScalprumConfig },
+): Promise<{ scalprum: ScalprumConfig; sharedModules: SharedModules }> {
+  const { sharedModules: overrides, ...scalprum } = await resolveScalprumConfig(
+    opts,
+    originalPkg,
+  );
+  if (overrides) {
+    Task.log(
+      'Sharing the modules provided by the RHDH app, with the additions and exclusions of the plugin',
+    );
+  }
+  return {
+    scalprum,
+    sharedModules: applySharedModulesOverrides(RHDH_SHARED_MODULES, overrides),
+  };
+}
+
+/**
+ * Builds the dynamic frontend plugin assets of an exported plugin in
+ * development mode, rebuilds them on every change, and serves them over HTTP
+ * with CORS headers until the process is interrupted.
+ */
+export async function watchFrontend(
+  opts: OptionValues,
+  target: string,
+): Promise<void> {
+  const originalPkg = await fs.readJson(paths.resolveTarget('package.json'));
+  const resolvedScalprumDistPath = path.join(target, 'dist-scalprum');
+  Task.log(
+    `Watching the plugin sources to generate dynamic frontend plugin assets in ${chalk.cyan(
       resolvedScalprumDistPath,
+    )}`,
+  );
+  const { scalprum, sharedModules } = await resolveScalprumBuild(
+    opts,
+    originalPkg,
+  );
+
+  const watcher = await watchScalprumBundle({
+    targetDir: paths.targetDir,
+    entry: 'src/index',
+    parallelism: getEnvironmentParallelism(),
+    checksEnabled: false,
+    pluginMetadata: {
+      ...scalprum,
+      version: originalPkg.version,
+    },
+    resolvedScalprumDistPath,
+    sharedModules,
+  });
+  let server: AssetServer;
+  try {
+    server = await serveAssets({
+      dir: resolvedScalprumDistPath,
+      port: Number(opts.watchPort),
     });
+  } catch (e) {
+    await watcher.close();
+    throw e;
   }
 
-  return target;
+  Task.log(
+    `Serving the dynamic frontend plugin assets at ${chalk.cyan(
+      server.url,
+    )}, with the plugin manifest at ${chalk.cyan(
+      `${server.url}/plugin-manifest.json`,
+    )}. Reload the app to pick up changes, and press Ctrl+C to stop.`,
+  );
+
+  await waitForInterrupt();
+  await Promise.all([watcher.close(), server.close()]);
 }
@@ -0,0 +1,108 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  clearExportDecisions,
+  createExportReport,
+  recordExportFailure,
+  writeExportReport,
+} from './report';
+
+describe('export report', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'export-report-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  it('writes an empty successful report', async () => {
+    const report = createExportReport({
+      name: '@backstage/plugin-example-backend',
+      version: '1.2.3',
+      role: 'backend-plugin',
+    });
+    const reportFile = path.join(workDir, 'reports', 'report.json');
+    await writeExportReport(reportFile, report);
+
+    await expect(fs.readJson(reportFile)).resolves.toEqual({
+      package: {
+        name: '@backstage/plugin-example-backend',
+        version: '1.2.3',
+        role: 'backend-plugin',
+      },
+      status: 'success',
+      embeddedPackages: [],
+      unusedEmbeddedPackages: [],
+      customizedPackages: [],
+      hoistedPeerDependencies: {},
+      nativeModules: { detected: [], allowed: [], suppressed: [] },
+      configSchemaPaths: [],
+    });
+  });
+
+  it('clears the decisions of a previous attempt', () => {
+    const report = createExportReport({
+      name: '@backstage/plugin-example-backend',
+      role: 'backend-plugin',
+    });
+    report.autoEmbeddedPackages = ['example-lib'];
+    report.embeddedPackages.push({
+      name: 'example-lib',
+      version: '1.0.0',
+      parent: '@backstage/plugin-example-backend',
+      source: 'node_modules/example-lib',
+      destination: 'embedded/example-lib',
+      mode: 'copied',
+    });
+    report.hoistedPeerDependencies['@backstage/core'] = '^1.0.0';
+    clearExportDecisions(report);
+
+    expect(report).toEqual({
+      ...createExportReport({
+        name: '@backstage/plugin-example-backend',
+        role: 'backend-plugin',
+      }),
+      autoEmbeddedPackages: ['example-lib'],
+    });
+  });
+
+  it('records failures without terminal colors', () => {
+    const report = createExportReport({
+      name: '@backstage/plugin-example',
+      role: 'frontend-plugin',
+    });
+    recordExportFailure(
+      report,
+      new Error(
+        'Invalid package \u001b[36m@backstage/plugin-example\u001b[39m',
+      ),
+    );
+
+    expect(report.status).toBe('failure');
+    expect(report.error).toBe(
+      'Error: Invalid package @backstage/plugin-example',
+    );
+  });
+});
@@ -0,0 +1,132 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import { stripVTControlCharacters } from 'util';
+
+import {
+  CompatibilityTarget,
+  IncompatiblePackage,
+} from '../../lib/compatibility';
+
+/**
+ * Decisions taken while customizing the `package.json` of the exported
+ * package, or of one of its embedded packages.
+ */
+export type ExportReportCustomizedPackage = {
+  name: string;
+  /** Dependencies moved to `peerDependencies`, with their version range */
+  movedToPeerDependencies: Record<string, string>;
+  /** `workspace:` and `backstage:` version specs replaced by concrete ranges */
+  resolvedVersions: Record<string, { from: string; to: string }>;
+  /** Exact versions pinned in `resolutions` to avoid version drift */
+  pinnedResolutions: Record<string, string>;
+  /** Resolutions propagated from the monorepo root `package.json` */
+  rootResolutions: Record<string, string>;
+};
+
+export type ExportReportEmbeddedPackage = {
+  name: string;
+  version: string;
+  parent: string;
+  /** Directory of the embedded package, relative to the exported package */
+  source: string;
+  /** Directory of the embedded package in the dynamic plugin package */
+  destination: string;
+  /** `packed` from sources, or `copied` when it was already packed */
+  mode: 'packed' | 'copied';
+};
+
+/**
+ * Structured record of everything `plugin export` decides, written by the
+ * `--report` option so that the exports of two releases can be diffed.
+ */
+export type ExportReport = {
+  package: { name: string; version?: string; role: string };
+  status: 'success' | 'failure';
+  error?: string;
+  /** Output directory, relative to the exported package */
+  target?: string;
+  embeddedPackages: ExportReportEmbeddedPackage[];
+  unusedEmbeddedPackages: string[];
+  /** Packages embedded by `--auto-embed` on top of `--embed-package` */
+  autoEmbeddedPackages?: string[];
+  customizedPackages: ExportReportCustomizedPackage[];
+  /** Peer dependencies of embedded packages hoisted to the main package */
+  hoistedPeerDependencies: Record<string, string>;
+  features?: Record<string, string>;
+  nativeModules: {
+    /** Native modules found in the private dependencies */
+    detected: string[];
+    /** Detected native modules accepted with `--allow-native-package` */
+    allowed: string[];
+    /** Native modules replaced by a stub with `--suppress-native-package` */
+    suppressed: string[];
+  };
+  /** Config schema files, relative to the output directory */
+  configSchemaPaths: string[];
+  supportedVersions?: string;
+  /** Check of the `@backstage/*` peer dependencies against the host release */
+  compatibility?: {
+    target: CompatibilityTarget;
+    incompatiblePackages: IncompatiblePackage[];
+  };
+};
+
+export function createExportReport(pkg: {
+  name: string;
+  version?: string;
+  role: string;
+}): ExportReport {
+  return {
+    package: { name: pkg.name, version: pkg.version, role: pkg.role },
+    status: 'success',
+    embeddedPackages: [],
+    unusedEmbeddedPackages: [],
+    customizedPackages: [],
+    hoistedPeerDependencies: {},
+    nativeModules: { detected: [], allowed: [], suppressed: [] },
+    configSchemaPaths: [],
+  };
+}
+
+/**
+ * Clears the decisions of a backend export attempt, before retrying it with
+ * other embedded packages.
+ */
+export function clearExportDecisions(report: ExportReport) {
+  report.embeddedPackages = [];
+  report.unusedEmbeddedPackages = [];
+  report.customizedPackages = [];
+  report.hoistedPeerDependencies = {};
+  report.nativeModules = { detected: [], allowed: [], suppressed: [] };
+}
+
+export function recordExportFailure(report: ExportReport, error: unknown) {
+  report.status = 'failure';
+  report.error = stripVTControlCharacters(String(error));
+}
+
+export async function writeExportReport(
+  reportFile: string,
+  report: ExportReport,
+): Promise<void> {
+  await fs.outputJson(reportFile, report, {
+    encoding: 'utf8',
+    spaces: 2,
+  });
+}
@@ -0,0 +1,189 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { BackstagePackageJson } from '@backstage/cli-node';
+
+import fs from 'fs-extra';
+
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  createDefaultScalprumConfig,
+  findScalprumConfigProblems,
+  validateScalprumConfig,
+} from './scalprum';
+
+function pkg(fields: Partial<BackstagePackageJson>): BackstagePackageJson {
+  return {
+    name: '@backstage/plugin-example',
+    version: '1.0.0',
+    backstage: { role: 'frontend-plugin' },
+    ...fields,
+  };
+}
+
+describe('createDefaultScalprumConfig', () => {
+  it('exposes the index as PluginRoot without exports field', () => {
+    expect(createDefaultScalprumConfig(pkg({}))).toEqual({
+      name: 'backstage.plugin-example',
+      exposedModules: { PluginRoot: './src/index.ts' },
+    });
+  });
+
+  it('exposes every script entry point of the exports field', () => {
+    expect(
+      createDefaultScalprumConfig(
+        pkg({
+          name: 'plugin-example',
+          exports: {
+            '.': './src/index.ts',
+            './alpha': './src/alpha.tsx',
+            './test-utils': 'src/testUtils/index.ts',
+            './package.json': './package.json',
+          },
+        }),
+      ),
+    ).toEqual({
+      name: 'plugin-example',
+      exposedModules: {
+        PluginRoot: './src/index.ts',
+        PluginAlpha: './src/alpha.tsx',
+        PluginTestUtils: './src/testUtils/index.ts',
+      },
+    });
+  });
+
+  it('rejects entry points exposed with the same name', () => {
+    expect(() =>
+      createDefaultScalprumConfig(
+        pkg({
+          exports: {
+            './test-utils': './src/testUtils.ts',
+            './test_utils': './src/test_utils.ts',
+          },
+        }),
+      ),
+    ).toThrow(
+      "Entry points './test-utils' and './test_utils' would both be exposed as 'PluginTestUtils'",
+    );
+  });
+});
+
+describe('findScalprumConfigProblems', () => {
+  let workspaceDir: string;
+  let packageDir: string;
+
+  beforeEach(async () => {
+    workspaceDir = await fs.mkdtemp(path.join(os.tmpdir(), 'scalprum-test-'));
+    packageDir = path.join(workspaceDir, 'plugins', 'example');
+    await fs.outputFile(path.join(packageDir, 'src', 'index.ts'), '');
+    await fs.outputFile(path.join(packageDir, 'src', 'alpha', 'index.tsx'), '');
+  });
+
+  afterEach(async () => {
+    await fs.remove(workspaceDir);
+  });
+
+  it('accepts valid configs', async () => {
+    await expect(
+      findScalprumConfigProblems(
+        {
+          name: 'backstage.plugin-example',
+          exposedModules: {
+            PluginRoot: './src/index.ts',
+            PluginAlpha: './src/alpha',
+          },
+          sharedModules: { 'react-i18next': false },
+        },
+        { packageDir },
+      ),
+    ).resolves.toEqual([]);
+  });
+
+  it('reports every problem at once', async () => {
+    await expect(
+      findScalprumConfigProblems(
+        {
+          name: 'backstage.plugin_example',
+          exposedModule: {},
+          exposedModules: {
+            PluginRoot: './src/missing.ts',
+            PluginAlpha: '',
+          },
+        },
+        { packageDir },
+      ),
+    ).resolves.toEqual([
+      "/: unknown key 'exposedModule'",
+      "/name: 'backstage.plugin_example' must start with letters, followed by letters and digits separated by single '-' or '.' characters",
+      '/exposedModules/PluginAlpha: must NOT have fewer than 1 characters',
+      "/exposedModules/PluginRoot: ./src/missing.ts doesn't exist in the package",
+    ]);
+  });
+
+  it('reports names used by other frontend plugins of the workspace', async () => {
+    const otherDir = path.join(workspaceDir, 'plugins', 'other');
+    await fs.outputJson(path.join(otherDir, 'package.json'), {
+      name: '@backstage/plugin-other',
+      backstage: { role: 'frontend-plugin' },
+    });
+    const workspacePackages = [
+      {
+        dir: packageDir,
+        packageJson: {
+          name: '@backstage/plugin-example',
+          backstage: { role: 'frontend-plugin' },
+        },
+      },
+      {
+        dir: otherDir,
+        packageJson: {
+          name: '@backstage/plugin-other',
+          backstage: { role: 'frontend-plugin' },
+        },
+      },
+      {
+        dir: path.join(workspaceDir, 'plugins', 'other-backend'),
+        packageJson: {
+          name: 'backstage.plugin-example',
+          backstage: { role: 'backend-plugin' },
+        },
+      },
+    ];
+
+    await expect(
+      validateScalprumConfig(
+        {
+          name: 'backstage.plugin-other',
+          exposedModules: { PluginRoot: './src/index.ts' },
+        },
+        { packageDir, source: 'package.json', workspacePackages },
+      ),
+    ).rejects.toThrow(
+      "/name: 'backstage.plugin-other' is also the scalprum name of @backstage/plugin-other, plugin names must be unique",
+    );
+    await expect(
+      validateScalprumConfig(
+        {
+          name: 'backstage.plugin-example',
+          exposedModules: { PluginRoot: './src/index.ts' },
+        },
+        { packageDir, source: 'package.json', workspacePackages },
+      ),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,311 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { BackstagePackageJson } from '@backstage/cli-node';
+
+import Ajv from 'ajv';
+import chalk from 'chalk';
+import { OptionValues } from 'commander';
+import fs from 'fs-extra';
+
+import path from 'path';
+
+import { SharedModulesOverrides } from '../../lib/bundler/sharedModules';
+import { EntryPoint, readEntryPoints } from '../../lib/entryPoints';
+import { paths } from '../../lib/paths';
+import { formatSchemaError, loadExportConfig } from './config';
+
+/** Extensions of the entry points exposed as Scalprum modules */
+const EXPOSED_MODULE_EXTENSIONS = [
+  '.ts',
+  '.tsx',
+  '.js',
+  '.jsx',
+  '.mjs',
+  '.cjs',
+];
+
+/**
+ * Plugin names accepted by the dynamic plugin SDK, for example `foo.bar-baz`
+ */
+const SCALPRUM_NAME_PATTERN = '^[a-zA-Z]+(?:[-.]?[a-zA-Z0-9]+)*$';
+
+const FRONTEND_ROLES = ['frontend-plugin', 'frontend-plugin-module'];
+
+const sharedModuleConfig = {
+  type: 'object',
+  properties: {
+    singleton: { type: 'boolean' },
+    eager: { type: 'boolean' },
+    strictVersion: { type: 'boolean' },
+    requiredVersion: { anyOf: [{ type: 'string' }, { const: false }] },
+    import: { anyOf: [{ type: 'string' }, { const: false }] },
+  },
+  additionalProperties: false,
+};
+
+const scalprumConfigSchema = {
+  type: 'object',
+  required: ['name', 'exposedModules'],
+  properties: {
+    name: { type: 'string', pattern: SCALPRUM_NAME_PATTERN },
+    version: { type: 'string' },
+    exposedModules: {
+      type: 'object',
+      minProperties: 1,
+      additionalProperties: { type: 'string', minLength: 1 },
+    },
+    dependencies: {
+      type: 'object',
+      additionalProperties: { type: 'string' },
+    },
+    customProperties: { type: 'object' },
+    sharedModules: {
+      type: 'object',
+      additionalProperties: {
+        anyOf: [sharedModuleConfig, { const: false }],
+      },
+    },
+  },
+  additionalProperties: false,
+};
+
+export type ScalprumConfig = {
+  name: string;
+  exposedModules: Record<string, string>;
+  sharedModules?: SharedModulesOverrides;
+  [key: string]: unknown;
+};
+
+/**
+ * Returns the default Scalprum name of a package, for example
+ * `backstage.plugin-example` for `@backstage/plugin-example`.
+ */
+export function defaultScalprumName(packageName: string): string {
+  if (packageName.includes('/')) {
+    const fragments = packageName.split('/');
+    return `${fragments[0].replace('@', '')}.${fragments[1]}`;
+  }
+  return packageName;
+}
+
+/**
+ * Returns the name of the module exposing an entry point: `PluginRoot` for the
+ * index, or else `Plugin` followed by the pascal-cased entry point name, for
+ * example `PluginAlpha` for `./alpha`.
+ */
+export function exposedModuleName(entryPoint: EntryPoint): string {
+  if (entryPoint.name === 'index') {
+    return 'PluginRoot';
+  }
+  return `Plugin${entryPoint.name
+    .split(/[^a-zA-Z0-9]+/)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')}`;
+}
+
+/**
+ * Creates the default Scalprum config of a frontend plugin, exposing every
+ * script entry point of its `exports` field as a module.
+ */
+export function createDefaultScalprumConfig(
+  pkg: BackstagePackageJson,
+): ScalprumConfig {
+  const exposedModules: Record<string, string> = {};
+  const mounts = new Map<string, string>();
+  for (const entryPoint of readEntryPoints(pkg)) {
+    if (!EXPOSED_MODULE_EXTENSIONS.includes(entryPoint.ext)) {
+      continue;
+    }
+    const moduleName = exposedModuleName(entryPoint);
+    if (mounts.has(moduleName)) {
+      throw new Error(
+        `Entry points '${mounts.get(moduleName)}' and '${entryPoint.mount}' would both be exposed as '${moduleName}', add a scalprum config to choose the exposed modules`,
+      );
+    }
+    mounts.set(moduleName, entryPoint.mount);
+    exposedModules[moduleName] = entryPoint.path.startsWith('.')
+      ? entryPoint.path
+      : `./${entryPoint.path}`;
+  }
+  return { name: defaultScalprumName(pkg.name), exposedModules };
+}
+
+/**
+ * Reads the Scalprum config of a frontend plugin from the `--scalprum-config`
+ * file, or else from the `scalprum` field of its `package.json` file, or else
+ * creates the default one.
+ *
+ * @returns the config, and its source, which is undefined for the default one
+ */
+export async function readScalprumConfig(
+  opts: OptionValues,
+  pkg: BackstagePackageJson & { scalprum?: ScalprumConfig },
+): Promise<{ scalprum: ScalprumConfig; source?: string }> {
+  if (opts.scalprumConfig) {
+    const scalprumConfigFile = paths.resolveTarget(opts.scalprumConfig);
+    return {
+      scalprum: await fs.readJson(scalprumConfigFile),
+      source: scalprumConfigFile,
+    };
+  }
+  if (pkg.scalprum) {
+    return { scalprum: pkg.scalprum, source: 'package.json' };
+  }
+  return { scalprum: createDefaultScalprumConfig(pkg) };
+}
+
+/** A package of the workspace, as listed by `@manypkg/get-packages` */
+export type ScalprumWorkspacePackage = {
+  dir: string;
+  packageJson: { name: string };
+};
+
+/**
+ * Resolves a module request of the scalprum config to a file of the package,
+ * with the extensions and index files resolved by webpack.
+ *
+ * @returns the resolved file, or undefined if it doesn't exist
+ */
+export async function resolveExposedModule(
+  packageDir: string,
+  request: string,
+): Promise<string | undefined> {
+  const file = path.resolve(packageDir, request);
+  const candidates = [
+    file,
+    ...EXPOSED_MODULE_EXTENSIONS.map(ext => `${file}${ext}`),
+    ...EXPOSED_MODULE_EXTENSIONS.map(ext => path.join(file, `index${ext}`)),
+  ];
+  for (const candidate of candidates) {
+    const stat = await fs.stat(candidate).catch(() => undefined);
+    if (stat?.isFile()) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the Scalprum name that the export of a workspace package would use,
+ * or undefined if it is not a frontend plugin or its config cannot be read.
+ */
+async function workspaceScalprumName(
+  workspacePackage: ScalprumWorkspacePackage,
+): Promise<string | undefined> {
+  const pkg = workspacePackage.packageJson as BackstagePackageJson & {
+    scalprum?: { name?: unknown };
+  };
+  if (!FRONTEND_ROLES.includes(pkg.backstage?.role ?? '')) {
+    return undefined;
+  }
+  try {
+    const scalprumConfigFile = (await loadExportConfig(workspacePackage.dir))
+      ?.config.scalprumConfig;
+    const scalprum = scalprumConfigFile
+      ? await fs.readJson(
+          path.resolve(workspacePackage.dir, scalprumConfigFile),
+        )
+      : pkg.scalprum;
+    if (scalprum) {
+      return typeof scalprum.name === 'string' ? scalprum.name : undefined;
+    }
+  } catch {
+    return undefined;
+  }
+  return defaultScalprumName(pkg.name);
+}
+
+/**
+ * Validates a Scalprum config against its schema, checks that the exposed
+ * modules exist in the package directory, and that no other frontend plugin
+ * of the workspace uses the same name.
+ *
+ * @returns every problem found, empty if the config is valid
+ */
+export async function findScalprumConfigProblems(
+  scalprum: unknown,
+  options: {
+    packageDir: string;
+    workspacePackages?: ScalprumWorkspacePackage[];
+  },
+): Promise<string[]> {
+  const { packageDir, workspacePackages = [] } = options;
+  const ajv = new Ajv({ allErrors: true, verbose: true });
+  const problems = ajv.validate(scalprumConfigSchema, scalprum)
+    ? []
+    : (ajv.errors ?? []).map(error =>
+        error.instancePath === '/name' && error.keyword === 'pattern'
+          ? `/name: '${error.data}' must start with letters, followed by letters and digits separated by single '-' or '.' characters`
+          : formatSchemaError(error),
+      );
+  if (typeof scalprum !== 'object' || scalprum === null) {
+    return problems;
+  }
+
+  const { name, exposedModules } = scalprum as Partial<ScalprumConfig>;
+  if (typeof exposedModules === 'object' && exposedModules !== null) {
+    for (const [moduleName, request] of Object.entries(exposedModules)) {
+      if (
+        typeof request === 'string' &&
+        request !== '' &&
+        !(await resolveExposedModule(packageDir, request))
+      ) {
+        problems.push(
+          `/exposedModules/${moduleName}: ${request} doesn't exist in the package`,
+        );
+      }
+    }
+  }
+
+  if (typeof name === 'string') {
+    for (const workspacePackage of workspacePackages) {
+      if (path.resolve(workspacePackage.dir) === path.resolve(packageDir)) {
+        continue;
+      }
+      if ((await workspaceScalprumName(workspacePackage)) === name) {
+        problems.push(
+          `/name: '${name}' is also the scalprum name of ${workspacePackage.packageJson.name}, plugin names must be unique`,
+        );
+      }
+    }
+  }
+  return problems;
+}
+
+/**
+ * Validates a Scalprum config before bundling, see
+ * {@link findScalprumConfigProblems}, and throws an error listing every
+ * problem found.
+ */
+export async function validateScalprumConfig(
+  scalprum: unknown,
+  options: {
+    packageDir: string;
+    source: string;
+    workspacePackages?: ScalprumWorkspacePackage[];
+  },
+): Promise<void> {
+  const problems = await findScalprumConfigProblems(scalprum, options);
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid scalprum config in ${chalk.cyan(options.source)}:${[
+        '',
+        ...problems,
+      ].join('\n- ')}`,
+    );
+  }
+}
@@ -0,0 +1,90 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import path from 'node:path';
+
+import { BackendExportStages } from './backend';
+import { createUpdateScheduler, stagesForChange } from './watch';
+
+describe('stagesForChange', () => {
+  const dependencyFiles = [
+    path.resolve('/work/plugin/package.json'),
+    path.resolve('/work/yarn.lock'),
+  ];
+
+  it('re-runs the whole export when a dependency file changes', () => {
+    expect(stagesForChange('/work/yarn.lock', dependencyFiles)).toBe('all');
+    expect(
+      stagesForChange('/work/plugin/src/../package.json', dependencyFiles),
+    ).toBe('all');
+  });
+
+  it('only re-packs the main package when a source file changes', () => {
+    expect(
+      stagesForChange('/work/plugin/src/package.json', dependencyFiles),
+    ).toBe('main-package');
+  });
+});
+
+describe('createUpdateScheduler', () => {
+  it('debounces the changes and keeps the widest stages', async () => {
+    const updates: BackendExportStages[] = [];
+    const scheduler = createUpdateScheduler(async stages => {
+      updates.push(stages);
+    }, 10);
+
+    scheduler.schedule('main-package');
+    scheduler.schedule('all');
+    scheduler.schedule('main-package');
+    await scheduler.idle();
+
+    expect(updates).toEqual(['all']);
+  });
+
+  it('runs the changes happening during an update afterwards', async () => {
+    const updates: BackendExportStages[] = [];
+    let finishUpdate = () => {};
+    const scheduler = createUpdateScheduler(async stages => {
+      updates.push(stages);
+      if (updates.length === 1) {
+        await new Promise<void>(resolve => {
+          finishUpdate = resolve;
+        });
+      }
+    }, 10);
+
+    scheduler.schedule('all');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    scheduler.schedule('main-package');
+    await new Promise(resolve => setTimeout(resolve, 50));
+    expect(updates).toEqual(['all']);
+
+    finishUpdate();
+    await scheduler.idle();
+    expect(updates).toEqual(['all', 'main-package']);
+  });
+
+  it('drops the scheduled changes when cancelled', async () => {
+    const update = jest.fn(async () => {});
+    const scheduler = createUpdateScheduler(update, 10);
+
+    scheduler.schedule('all');
+    scheduler.cancel();
+    await scheduler.idle();
+
+    expect(update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,152 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import chalk from 'chalk';
+import chokidar from 'chokidar';
+import fs from 'fs-extra';
+
+import path from 'path';
+
+import { paths } from '../../lib/paths';
+import { Task } from '../../lib/tasks';
+import { BackendExportStages } from './backend';
+
+/**
+ * Resolves once the process receives SIGINT (Ctrl+C) or SIGTERM.
+ */
+export function waitForInterrupt(): Promise<void> {
+  return new Promise<void>(resolve => {
+    process.once('SIGINT', resolve);
+    process.once('SIGTERM', resolve);
+  });
+}
+
+/**
+ * Returns the export stages to re-run after a change of the given file: all
+ * of them when the dependencies may have changed, or else only the rebuild
+ * and re-pack of the main package.
+ */
+export function stagesForChange(
+  file: string,
+  dependencyFiles: string[],
+): BackendExportStages {
+  return dependencyFiles.includes(path.resolve(file)) ? 'all' : 'main-package';
+}
+
+/**
+ * Collects the changes until nothing changed for the given delay, then runs
+ * the update with the widest stages required by the changes. Updates never
+ * overlap: changes happening during an update trigger another one afterwards.
+ */
+export function createUpdateScheduler(
+  update: (stages: BackendExportStages) => Promise<void>,
+  delayMs: number = 300,
+) {
+  let pending: BackendExportStages | undefined;
+  let running: Promise<void> | undefined;
+  let timer: NodeJS.Timeout | undefined;
+
+  const flush = () => {
+    timer = undefined;
+    if (running || !pending) {
+      return;
+    }
+    const stages = pending;
+    pending = undefined;
+    running = update(stages).finally(() => {
+      running = undefined;
+      if (pending && !timer) {
+        flush();
+      }
+    });
+  };
+
+  return {
+    schedule(stages: BackendExportStages) {
+      pending = pending === 'all' ? 'all' : stages;
+      if (timer) {
+        clearTimeout(timer);
+      }
+      timer = setTimeout(flush, delayMs);
+    },
+    /** Resolves once the scheduled and running updates are complete */
+    async idle() {
+      while (timer || running) {
+        if (running) {
+          await running;
+        } else {
+          await new Promise(resolve => setTimeout(resolve, delayMs));
+        }
+      }
+    },
+    cancel() {
+      if (timer) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+      pending = undefined;
+    },
+  };
+}
+
+/**
+ * Watches the sources and the dependency files of a backend plugin package,
+ * and re-runs the affected export stages on every change, until the process
+ * is interrupted.
+ */
+export async function watchBackend(
+  update: (stages: BackendExportStages) => Promise<void>,
+): Promise<void> {
+  const dependencyFiles = [
+    paths.resolveTarget('package.json'),
+    paths.resolveTarget('yarn.lock'),
+    paths.resolveTargetRoot('yarn.lock'),
+  ];
+  const scheduler = createUpdateScheduler(async stages => {
+    Task.log(
+      stages === 'all'
+        ? `Dependencies changed, exporting the plugin again`
+        : `Sources changed, rebuilding and re-packing the main package`,
+    );
+    try {
+      await update(stages);
+      Task.log(chalk.green(`Dynamic plugin updated, watching for changes`));
+    } catch (e) {
+      Task.error(`Failed to update the dynamic plugin: ${e}`);
+    }
+  });
+
+  const watched = [
+    paths.resolveTarget('src'),
+    ...dependencyFiles.filter(file => fs.existsSync(file)),
+  ];
+  const watcher = chokidar.watch([...new Set(watched)], {
+    ignoreInitial: true,
+  });
+  watcher.on('all', (_event, file) =>
+    scheduler.schedule(stagesForChange(file, dependencyFiles)),
+  );
+
+  Task.log(
+    `Watching ${chalk.cyan('src')}, ${chalk.cyan('package.json')} and ${chalk.cyan(
+      'yarn.lock',
+    )} for changes, press Ctrl+C to stop`,
+  );
+  await waitForInterrupt();
+  scheduler.cancel();
+  await watcher.close();
+  await scheduler.idle();
+}
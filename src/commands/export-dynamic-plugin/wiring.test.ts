@@ -0,0 +1,115 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import YAML from 'yaml';
+
+import {
+  createWiringSkeleton,
+  ExposedModuleExports,
+  findWiringCandidates,
+  parseWiringSkeleton,
+} from './wiring';
+
+const component = (name: string) => ({
+  name,
+  type: '(props: {}) => JSX.Element',
+  callable: true,
+});
+
+const modules: ExposedModuleExports[] = [
+  {
+    module: 'PluginRoot',
+    exports: [
+      { name: 'examplePlugin', type: 'BackstagePlugin<{}>', callable: false },
+      { name: 'exampleApiRef', type: 'ApiRef<ExampleApi>', callable: false },
+      {
+        name: 'exampleApiFactory',
+        type: 'ApiFactory<ExampleApi, ExampleClient, {}>',
+        callable: false,
+      },
+      { name: 'useExample', type: '() => Example', callable: true },
+      component('TechRadarPage'),
+      component('EntityExampleCard'),
+      { name: 'ExampleIcon', type: 'IconComponent', callable: true },
+    ],
+  },
+  { module: 'PluginAlpha', exports: [component('ExampleAlphaPage')] },
+];
+
+describe('findWiringCandidates', () => {
+  it('classifies the exports of the exposed modules', () => {
+    expect(findWiringCandidates(modules)).toEqual({
+      dynamicRoutes: [
+        { path: '/tech-radar', importName: 'TechRadarPage' },
+        {
+          path: '/example-alpha',
+          importName: 'ExampleAlphaPage',
+          module: 'PluginAlpha',
+        },
+      ],
+      mountPoints: [
+        {
+          mountPoint: 'entity.page.overview/cards',
+          importName: 'EntityExampleCard',
+        },
+      ],
+      apiFactories: [{ importName: 'exampleApiFactory' }],
+      appIcons: [{ name: 'exampleIcon', importName: 'ExampleIcon' }],
+    });
+  });
+});
+
+describe('createWiringSkeleton', () => {
+  it('creates a commented skeleton under the scalprum name', () => {
+    const skeleton = createWiringSkeleton('backstage.plugin-example', modules);
+    expect(skeleton).toContain(
+      '# Wiring skeleton generated from the exports of the exposed modules of backstage.plugin-example,',
+    );
+    expect(skeleton).toContain(
+      '      # Exported pages: choose their paths, and add a menuItem to list them in the sidebar\n      dynamicRoutes:\n',
+    );
+    expect(
+      YAML.parse(skeleton).dynamicPlugins.frontend['backstage.plugin-example'],
+    ).toEqual(findWiringCandidates(modules));
+  });
+
+  it('omits the sections without candidates', () => {
+    const skeleton = createWiringSkeleton('backstage.plugin-example', [
+      { module: 'PluginRoot', exports: [] },
+    ]);
+    expect(YAML.parse(skeleton)).toEqual({
+      dynamicPlugins: { frontend: { 'backstage.plugin-example': {} } },
+    });
+  });
+});
+
+describe('parseWiringSkeleton', () => {
+  it('returns the wiring with its comments', () => {
+    const parsed = parseWiringSkeleton(
+      createWiringSkeleton('backstage.plugin-example', modules),
+    );
+    expect(parsed?.scalprumName).toBe('backstage.plugin-example');
+    expect(parsed?.wiring.toJSON()).toEqual(findWiringCandidates(modules));
+    expect(parsed?.wiring.commentBefore).toContain(
+      'Wiring skeleton generated from the exports',
+    );
+    expect(parsed?.wiring.commentBefore).toContain('Exported pages');
+  });
+
+  it('ignores invalid skeletons', () => {
+    expect(parseWiringSkeleton('dynamicPlugins: {}')).toBeUndefined();
+  });
+});
@@ -0,0 +1,153 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import YAML, { isMap, isScalar, YAMLMap } from 'yaml';
+
+/**
+ * File of the `dist-dynamic` directory in which `plugin export` writes the
+ * wiring skeleton of a frontend plugin, read by `plugin package` to complete
+ * its example configuration.
+ */
+export const WIRING_SKELETON_FILE = 'dynamic-plugins.wiring.yaml';
+
+/** Module loaded by RHDH when the wiring doesn't name one */
+const DEFAULT_MODULE = 'PluginRoot';
+
+/** Mount point proposed for the exported components that are not pages */
+const DEFAULT_MOUNT_POINT = 'entity.page.overview/cards';
+
+/** A value exported by an exposed module, as analysed by ts-morph */
+export type ExportedSymbol = {
+  name: string;
+  /** The text of its type, for example `ApiFactory<FooApi, FooClient, {}>` */
+  type: string;
+  /** Whether it can be called, as function components can */
+  callable: boolean;
+};
+
+export type ExposedModuleExports = {
+  module: string;
+  exports: ExportedSymbol[];
+};
+
+type WiringCandidate = { importName: string; module?: string };
+
+function kebabCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1-$2')
+    .replace(/([A-Z])([A-Z][a-z])/g, '$1-$2')
+    .toLowerCase();
+}
+
+/**
+ * Classifies the exports of the exposed modules of a frontend plugin into
+ * candidate wiring: API factories, icons, pages as routes, and the other
+ * components as mount points.
+ */
+export function findWiringCandidates(modules: ExposedModuleExports[]) {
+  const candidates = {
+    dynamicRoutes: [] as (WiringCandidate & { path: string })[],
+    mountPoints: [] as (WiringCandidate & { mountPoint: string })[],
+    apiFactories: [] as WiringCandidate[],
+    appIcons: [] as (WiringCandidate & { name: string })[],
+  };
+  for (const { module, exports } of modules) {
+    for (const symbol of exports) {
+      const candidate: WiringCandidate = {
+        importName: symbol.name,
+        ...(module === DEFAULT_MODULE ? {} : { module }),
+      };
+      if (/\b(Any)?ApiFactory\b/.test(symbol.type)) {
+        candidates.apiFactories.push(candidate);
+      } else if (!symbol.callable || !/^[A-Z]/.test(symbol.name)) {
+        continue;
+      } else if (symbol.name.endsWith('Icon')) {
+        candidates.appIcons.push({
+          name: `${symbol.name.charAt(0).toLowerCase()}${symbol.name.slice(1)}`,
+          ...candidate,
+        });
+      } else if (symbol.name.endsWith('Page')) {
+        candidates.dynamicRoutes.push({
+          path: `/${kebabCase(symbol.name.replace(/Page$/, '') || 'page')}`,
+          ...candidate,
+        });
+      } else {
+        candidates.mountPoints.push({
+          mountPoint: DEFAULT_MOUNT_POINT,
+          ...candidate,
+        });
+      }
+    }
+  }
+  return candidates;
+}
+
+const SECTION_COMMENTS: Record<string, string> = {
+  dynamicRoutes:
+    ' Exported pages: choose their paths, and add a menuItem to list them in the sidebar',
+  mountPoints: ` Other exported components: choose their mount points, and remove the ones which are not extensions`,
+  apiFactories: ' Exported API factories',
+  appIcons: ' Exported icons, usable as the icon of menu items',
+};
+
+/**
+ * Creates the `dynamic-plugins.yaml` wiring skeleton of a frontend plugin,
+ * under `dynamicPlugins.frontend.<scalprum name>`, with comments describing
+ * the candidates to review.
+ */
+export function createWiringSkeleton(
+  scalprumName: string,
+  modules: ExposedModuleExports[],
+): string {
+  const sections = Object.fromEntries(
+    Object.entries(findWiringCandidates(modules)).filter(
+      ([_, candidates]) => candidates.length > 0,
+    ),
+  );
+  const doc = new YAML.Document({
+    dynamicPlugins: { frontend: { [scalprumName]: sections } },
+  });
+  doc.commentBefore = ` Wiring skeleton generated from the exports of the exposed modules of ${scalprumName},\n review the candidate routes, mount points, API factories and icons before use`;
+  const wiring = doc.getIn(['dynamicPlugins', 'frontend', scalprumName]);
+  if (isMap(wiring)) {
+    for (const pair of wiring.items) {
+      if (isScalar(pair.key)) {
+        pair.key.commentBefore = SECTION_COMMENTS[String(pair.key.value)];
+      }
+    }
+  }
+  return doc.toString();
+}
+
+/**
+ * Returns the wiring of a skeleton created by {@link createWiringSkeleton},
+ * as a YAML node keeping its comments, to be inserted in another document.
+ */
+export function parseWiringSkeleton(
+  skeleton: string,
+): { scalprumName: string; wiring: YAMLMap } | undefined {
+  const doc = YAML.parseDocument(skeleton);
+  const frontend = doc.getIn(['dynamicPlugins', 'frontend']);
+  const pair = isMap(frontend) ? frontend.items[0] : undefined;
+  if (!pair || !isScalar(pair.key) || !isMap(pair.value)) {
+    return undefined;
+  }
+  // The comment of the first section is attached to the wiring itself
+  pair.value.commentBefore = [doc.commentBefore, pair.value.commentBefore]
+    .filter(Boolean)
+    .join('\n');
+  return { scalprumName: String(pair.key.value), wiring: pair.value };
+}
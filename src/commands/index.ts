@@ -20,6 +20,16 @@ import { Command } from 'commander';
 
 import { exitWithError } from '../lib/errors';
 
+const rhdhVersionOption = [
+  '--rhdh-version <version>',
+  'RHDH release, for example `2.0`, whose Backstage version is the target of the compatibility check when `--target-backstage-version` is not set.',
+] as const;
+
+const targetBackstageVersionOption = [
+  '--target-backstage-version <version>',
+  'Backstage version of the host, for example `1.40.0`, against which the `@backstage/*` peer dependencies of the exported plugins are checked with the Backstage release manifest. Defaults to the Backstage version of the `--rhdh-version` RHDH release, if any, or else no check is done.',
+] as const;
+
 export function registerPluginCommand(program: Command) {
   const command = program
     .command('plugin [command]')
@@ -35,6 +45,10 @@ export function registerPluginCommand(program: Command) {
       '--embed-package [package-name...]',
       'Optional list of packages that should be embedded inside the generated code of a backend dynamic plugin, removed from the plugin dependencies, while their direct dependencies will be hoisted to the dynamic plugin dependencies (backend plugin only).',
     )
+    .option(
+      '--auto-embed',
+      'When shared packages end up in the private dependencies of a backend dynamic plugin, embed the packages that bring them and export again, until no shared package is left or no other package can be embedded. The final list of embedded packages is printed so that it can be persisted with `--embed-package` (backend plugin only).',
+    )
     .option(
       '--shared-package [package-name...]',
       'Optional list of packages that should be considered shared by all dynamic plugins, and will be moved to peer dependencies of the dynamic plugin. The `@backstage` packages are by default considered shared dependencies.',
@@ -75,6 +89,25 @@ export function registerPluginCommand(program: Command) {
       '--scalprum-config <file>',
       'Allows retrieving scalprum configuration from an external JSON file, instead of using a `scalprum` field of the `package.json`. Frontend plugins only.',
     )
+    .option(
+      '--print-scalprum-config',
+      'Print the scalprum configuration of the frontend plugin, by default exposing every entry point of the `exports` field of the `package.json` as a module (`PluginRoot` for `.`, `PluginAlpha` for `./alpha`), and exit without exporting. Frontend plugins only.',
+    )
+    .option(...rhdhVersionOption)
+    .option(...targetBackstageVersionOption)
+    .option(
+      '--singleton-check <mode>',
+      'What to do when the dynamic frontend plugin assets bundle their own copy of a singleton shared by the RHDH app, such as `@mui/material` or `@backstage/core-plugin-api`, instead of sharing it: `fail`, `warn` or `off`. Frontend plugins only.',
+      'fail',
+    )
+    .option(
+      '--stats',
+      'Write the bundle stats of the dynamic frontend plugin assets, with a text and an HTML treemap report of their composition grouped by package, to the `dist-scalprum-stats` folder. Frontend plugins only.',
+    )
+    .option(
+      '--size-report <file>',
+      'Write the sizes of the JavaScript assets of the dynamic frontend plugin, per build output directory, to the given JSON file, along with the size budgets of the export configuration and the exceeded ones. Frontend plugins only.',
+    )
     .option(
       '--track-dynamic-manifest-and-lock-file',
       'Adds the `package.json` and `yarn.lock` files, generated in the `dist-dynamic` folder of backend plugins, to source control. By default the whole `dist-dynamic` folder id git-ignored.',
@@ -92,8 +125,64 @@ export function registerPluginCommand(program: Command) {
       true,
     )
     .option('--no-generate-module-federation-assets', '', false)
+    .option(
+      '--watch',
+      'After exporting, watch the plugin for changes until interrupted. For frontend plugins, the dynamic frontend plugin assets are rebuilt in development mode on every source change, and served over HTTP with CORS headers so that a locally running RHDH can load them from a URL. For backend plugins, the main package is rebuilt and re-packed when `src` changes, and the whole export, including `yarn install` and the validation, runs again when `package.json` or `yarn.lock` changes.',
+    )
+    .option(
+      '--watch-port <port>',
+      'Port of the HTTP server started by the `--watch` option.',
+      '7070',
+    )
+    .option(
+      '--reload-marker <file>',
+      'File, relative to the dynamic plugins root, touched after each update of a backend plugin in watch mode, to notify a running RHDH. Requires `--watch` and `--dev`.',
+    )
+    .option(
+      '--config-schema-conflicts <mode>',
+      'What to do when the config schemas of the plugin and its dependencies define the same key with different types or visibilities, for example a key made `frontend`-visible by another package: `fail`, `warn` or `off`.',
+      'warn',
+    )
+    .option(
+      '--report <file>',
+      'Write a JSON report of the export decisions (embedded packages, packages moved to peer dependencies, hoisted peer dependencies, propagated and pinned resolutions, detected features, native modules, config schema files) to the given file. The report is also written when the export fails.',
+    )
     .action(lazy(() => import('./export-dynamic-plugin').then(m => m.command)));
 
+  command
+    .command('doctor')
+    .description(
+      'Run quick checks on a plugin package before exporting it as a dynamic plugin: package role and fields, supported Backstage versions, workspace: and backstage: version specs, scalprum config, and the tools needed to export and package it.',
+    )
+    .option(
+      '--scalprum-config <file>',
+      'External scalprum configuration JSON file to check, as passed to "plugin export". Frontend plugins only.',
+    )
+    .action(lazy(() => import('./doctor-dynamic-plugin').then(m => m.command)));
+
+  command
+    .command('retarget [dist-dynamic]')
+    .description(
+      'Retarget an exported dynamic plugin, in the given directory or in ./dist-dynamic, to another Backstage release without exporting it again: rewrite `backstage.supported-versions` and the versions of the `@backstage/*` peer dependencies and resolutions with the Backstage release manifest, check the peer dependencies against the release, then install and validate the private dependencies of backend plugins.',
+    )
+    .option(...targetBackstageVersionOption)
+    .option(...rhdhVersionOption)
+    .option(
+      '--shared-package [package-name...]',
+      'Packages that are considered shared, as passed to "plugin export", to validate the private dependencies. The `@backstage` packages are by default considered shared dependencies.',
+    )
+    .option(
+      '--allow-native-package [package-name...]',
+      'Native packages that can be included in the private dependencies, as passed to "plugin export".',
+    )
+    .option(
+      '--no-install',
+      'Do not run `yarn install` and the validation of the private dependencies (backend plugin only).',
+    )
+    .action(
+      lazy(() => import('./retarget-dynamic-plugin').then(m => m.command)),
+    );
+
   command
     .command('package')
     .description(
@@ -103,6 +192,32 @@ export function registerPluginCommand(program: Command) {
       '--force-export',
       'Regenerate the dist-dynamic folder for each plugin even if it already exists',
     )
+    .option(
+      '--plugins-dir <directory>',
+      'Directory of the workspace in which the plugin packages are discovered.',
+      'plugins',
+    )
+    .option(
+      '--include <glob...>',
+      'Only package the plugins whose package name (for example "@scope/plugin-*") or directory relative to the workspace root (for example "plugins/catalog-*") matches one of these globs.',
+    )
+    .option(
+      '--exclude <glob...>',
+      'Do not package the plugins whose package name or directory relative to the workspace root matches one of these globs. Takes precedence over "--include".',
+    )
+    .option(
+      '--parallel [count]',
+      'Export the plugins concurrently, with up to the given number of exports at a time. Without a count, the BACKSTAGE_CLI_BUILD_PARALLEL environment variable or half the number of CPUs is used. The output of each export is printed once it completes.',
+    )
+    .option(
+      '--strict',
+      'Stop at the first plugin that fails to export or to be staged, without building the image. By default the other plugins are still packaged, but the command exits with a non-zero code.',
+    )
+    .option(
+      '--rhdh-version <version>',
+      'RHDH release, for example `2.0`, against whose Backstage version the `@backstage/*` peer dependencies of the exported plugins are checked before building the image.',
+    )
+    .option(...targetBackstageVersionOption)
     .option(
       '--preserve-temp-dir',
       'Leave the temporary staging directory on the filesystem instead of deleting it',
@@ -111,9 +226,13 @@ export function registerPluginCommand(program: Command) {
       '--export-to <directory>',
       'Export the plugins to the specified directory, skips building the container image',
     )
+    .option(
+      '--output-oci <path>',
+      'Write the container image as an OCI image layout to the specified directory (or to a tar archive if the path ends with ".tar") using the built-in image writer. No container tool is required. The "--tag" value, if any, is used as the image reference name.',
+    )
     .option(
       '-t, --tag <tag>',
-      'Tag name to use when building the plugin registry image.  Required if "--export-to" is not specified',
+      'Tag name to use when building the plugin registry image.  Required if neither "--export-to" nor "--output-oci" is specified',
     )
     .option(
       '--use-docker',
@@ -140,9 +259,129 @@ export function registerPluginCommand(program: Command) {
     .action(
       lazy(() => import('./package-dynamic-plugins').then(m => m.command)),
     );
+
+  command
+    .command('push <source>')
+    .description(
+      'Push packaged dynamic plugins to a container registry, from a directory written by "plugin package --export-to" or an OCI image layout directory written by "plugin package --output-oci". No container tool is required.',
+    )
+    .requiredOption(
+      '-t, --tag <tag>',
+      'Image reference to push to, for example "quay.io/org/plugins:1.0.0".',
+    )
+    .option(
+      '--authfile <path>',
+      'Registry authentication file. Default is to look up "$REGISTRY_AUTH_FILE", "$XDG_RUNTIME_DIR/containers/auth.json", then "~/.docker/config.json".',
+    )
+    .option(
+      '--plain-http',
+      'Connect to the registry over HTTP instead of HTTPS, for local registries.',
+    )
+    .option(
+      '--platform <platform>',
+      'Platform of the image built from an exported directory. Default is "linux/amd64".',
+      'linux/amd64',
+    )
+    .option(
+      '--annotation <key=value...>',
+      'Add annotation to the image built from an exported directory. Can be specified multiple times.',
+    )
+    .option(
+      '--label <key=value...>',
+      'Add label to the image built from an exported directory. Can be specified multiple times.',
+    )
+    .action(lazy(() => import('./push-dynamic-plugins').then(m => m.command)));
+
+  command
+    .command('inspect <source>')
+    .description(
+      'List the plugins contained in a dynamic plugins image in a registry (for example "quay.io/org/plugins:1.0.0"), in an OCI image layout directory or tar archive, or in a directory written by "plugin package --export-to".',
+    )
+    .option(
+      '--format <format>',
+      'Output format. Allowed values: "table", "json", "yaml".',
+      'table',
+    )
+    .option(
+      '--authfile <path>',
+      'Registry authentication file. Default is to look up "$REGISTRY_AUTH_FILE", "$XDG_RUNTIME_DIR/containers/auth.json", then "~/.docker/config.json".',
+    )
+    .option(
+      '--plain-http',
+      'Connect to the registry over HTTP instead of HTTPS, for local registries.',
+    )
+    .action(
+      lazy(() => import('./inspect-dynamic-plugins').then(m => m.command)),
+    );
 }
+
+const configOption = [
+  '--config <path>',
+  'Config files to load instead of app-config.yaml',
+  (opt: string, opts: string[]) => (opts ? [...opts, opt] : [opt]),
+  Array<string>(),
+] as const;
+
+export function registerPackageCommand(program: Command) {
+  const command = program
+    .command('package [command]')
+    .description(
+      'Lifecycle scripts for the RHDH app package, using the RHDH webpack configuration with the module federation host for dynamic frontend plugins',
+    );
+
+  command
+    .command('start')
+    .description(
+      'Start the app package, or a frontend plugin package from its dev/ entry point, for local development',
+    )
+    .option(...configOption)
+    .option('--role <name>', 'Run the command with an explicit package role')
+    .option('--check', 'Enable type checking and linting if available')
+    .action(lazy(() => import('./start').then(m => m.command)));
+
+  command
+    .command('build')
+    .description('Build the app package for production deployment')
+    .option(...configOption)
+    .option('--role <name>', 'Run the command with an explicit package role')
+    .option(
+      '--stats',
+      'If bundle stats are available, write them to the output directory',
+    )
+    .action(lazy(() => import('./build').then(m => m.command)));
+}
+
+export function registerManifestsCommand(program: Command) {
+  const command = program
+    .command('manifests [command]')
+    .description(
+      'Manage the store of Backstage release manifests, used to resolve the "backstage:^" version specs when the manifests cannot be fetched, for example on air-gapped builders. The store is in "$RHDH_CLI_MANIFEST_CACHE_DIR", or else in "~/.cache/rhdh-cli/manifests".',
+    );
+
+  command
+    .command('fetch [versions...]')
+    .description(
+      'Fetch the release manifests of the given Backstage versions, or else of the version of the backstage.json file, and add them to the store. Uses "$BACKSTAGE_VERSIONS_BASE_URL" when set.',
+    )
+    .action(lazy(() => import('./manifests').then(m => m.fetchCommand)));
+
+  command
+    .command('list')
+    .description('List the Backstage release manifests of the store')
+    .action(lazy(() => import('./manifests').then(m => m.listCommand)));
+
+  command
+    .command('import <files...>')
+    .description(
+      'Add release manifest files, downloaded from https://versions.backstage.io/v1/releases/<version>/manifest.json, to the store',
+    )
+    .action(lazy(() => import('./manifests').then(m => m.importCommand)));
+}
+
 export function registerCommands(program: Command) {
   registerPluginCommand(program);
+  registerPackageCommand(program);
+  registerManifestsCommand(program);
 }
 
 // Wraps an action function so that it always exits and handles errors
@@ -0,0 +1,93 @@
+import { OptionValues } from 'commander';
+import YAML from 'yaml';
+
+import { PluginRegistryMetadata } from '../../lib/pluginRegistryMetadata';
+import { loadPluginRegistryMetadata } from './metadata';
+
+const FORMATS = ['table', 'json', 'yaml'];
+
+type PluginSummary = {
+  package: string;
+  name?: string;
+  version?: string;
+  role?: string;
+  'supported-versions'?: string;
+  features?: Record<string, string>;
+};
+
+export async function command(
+  source: string,
+  opts: OptionValues,
+): Promise<void> {
+  const { format = 'table', authfile, plainHttp } = opts;
+  if (!FORMATS.includes(format)) {
+    throw new Error(
+      `Invalid format '${format}', expected one of ${FORMATS.join(', ')}`,
+    );
+  }
+
+  const metadata = await loadPluginRegistryMetadata(source, {
+    authfile,
+    plainHttp,
+  });
+  // `oci://<image>!<package>` references select a single plugin
+  const selectedPackage = source.match(/^oci:\/\/[^!]+!(.+)$/)?.[1];
+  const plugins = summarize(metadata).filter(
+    plugin => !selectedPackage || plugin.package === selectedPackage,
+  );
+  if (selectedPackage && plugins.length === 0) {
+    throw new Error(`Plugin ${selectedPackage} not found in ${source}`);
+  }
+
+  switch (format) {
+    case 'json':
+      process.stdout.write(`${JSON.stringify(plugins, undefined, 2)}\n`);
+      break;
+    case 'yaml':
+      process.stdout.write(YAML.stringify(plugins));
+      break;
+    default:
+      process.stdout.write(formatTable(plugins));
+  }
+}
+
+function summarize(metadata: PluginRegistryMetadata): PluginSummary[] {
+  return metadata.map(item => {
+    const [packageName, entry] = Object.entries(item)[0];
+    return {
+      package: packageName,
+      name: entry.name,
+      version: entry.version,
+      role: entry.backstage?.role,
+      'supported-versions': entry.backstage?.['supported-versions'],
+      features: entry.backstage?.features,
+    };
+  });
+}
+
+function formatTable(plugins: PluginSummary[]): string {
+  const rows = [
+    ['NAME', 'VERSION', 'ROLE', 'SUPPORTED VERSIONS', 'FEATURES'],
+    ...plugins.map(plugin => [
+      plugin.name ?? plugin.package,
+      plugin.version ?? '-',
+      plugin.role ?? '-',
+      plugin['supported-versions'] ?? '-',
+      Object.entries(plugin.features ?? {})
+        .map(([mount, type]) => (mount === '.' ? type : `${mount}: ${type}`))
+        .join(', ') || '-',
+    ]),
+  ];
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map(row => row[column].length)),
+  );
+  return rows
+    .map(
+      row =>
+        `${row
+          .map((cell, column) => cell.padEnd(widths[column]))
+          .join('  ')
+          .trimEnd()}\n`,
+    )
+    .join('');
+}
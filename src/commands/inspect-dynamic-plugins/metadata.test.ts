@@ -0,0 +1,120 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  DYNAMIC_PACKAGES_ANNOTATION,
+  writeOciImageLayout,
+} from '../../lib/oci';
+import {
+  encodePluginRegistryMetadata,
+  PluginRegistryMetadata,
+} from '../../lib/pluginRegistryMetadata';
+import { loadPluginRegistryMetadata } from './metadata';
+
+const metadata: PluginRegistryMetadata = [
+  {
+    'backstage-plugin-example': {
+      name: '@backstage/plugin-example',
+      version: '1.2.3',
+      backstage: {
+        role: 'backend-plugin',
+        'supported-versions': '1.52.0',
+        features: { '.': '@backstage/BackendFeature' },
+      },
+    },
+  },
+];
+
+describe('loadPluginRegistryMetadata', () => {
+  let workDir: string;
+  let exportDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'inspect-test-'));
+    exportDir = path.join(workDir, 'export');
+    await fs.outputJson(path.join(exportDir, 'index.json'), metadata);
+    await fs.outputJson(
+      path.join(exportDir, 'backstage-plugin-example', 'package.json'),
+      { name: '@backstage/plugin-example-dynamic' },
+    );
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  it('reads the index.json file of an exported directory', async () => {
+    await expect(loadPluginRegistryMetadata(exportDir)).resolves.toEqual(
+      metadata,
+    );
+  });
+
+  it.each(['layout', 'layout.tar'])(
+    'reads the manifest annotation of an OCI image layout (%s)',
+    async output => {
+      const outputPath = path.join(workDir, output);
+      // a different annotation proves that it takes precedence over index.json
+      const annotated = [{ other: { name: 'other' } }];
+      await writeOciImageLayout({
+        sourceDir: exportDir,
+        outputPath,
+        annotations: {
+          [DYNAMIC_PACKAGES_ANNOTATION]:
+            encodePluginRegistryMetadata(annotated),
+        },
+      });
+
+      await expect(loadPluginRegistryMetadata(outputPath)).resolves.toEqual(
+        annotated,
+      );
+    },
+  );
+
+  it('falls back to the index.json file of the image layer', async () => {
+    const outputPath = path.join(workDir, 'layout.tar');
+    await writeOciImageLayout({ sourceDir: exportDir, outputPath });
+
+    await expect(loadPluginRegistryMetadata(outputPath)).resolves.toEqual(
+      metadata,
+    );
+  });
+
+  it('rejects directories that are not plugin exports', async () => {
+    await expect(
+      loadPluginRegistryMetadata(
+        path.join(exportDir, 'backstage-plugin-example'),
+      ),
+    ).rejects.toThrow(
+      'is neither an OCI image layout nor a directory exported',
+    );
+  });
+
+  it.each([
+    './missing-export',
+    '../missing-export',
+    '/missing-export',
+    'missing-export/plugins',
+  ])('reports %s as missing instead of pulling it', async source => {
+    await expect(loadPluginRegistryMetadata(source)).rejects.toThrow(
+      `${source}: no such file or directory`,
+    );
+  });
+});
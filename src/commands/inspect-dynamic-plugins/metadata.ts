@@ -0,0 +1,215 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { createGunzip } from 'node:zlib';
+
+import {
+  blobPath,
+  DYNAMIC_PACKAGES_ANNOTATION,
+  findRegistryCredentials,
+  ImageIndex,
+  ImageManifest,
+  isOciImageLayout,
+  parseImageReference,
+  readOciImageLayout,
+  readTarFiles,
+  RegistryClient,
+  selectManifest,
+} from '../../lib/oci';
+import {
+  decodePluginRegistryMetadata,
+  PluginRegistryMetadata,
+  validatePluginRegistryMetadata,
+} from '../../lib/pluginRegistryMetadata';
+
+export type MetadataSourceOptions = {
+  authfile?: string;
+  plainHttp?: boolean;
+};
+
+type ImageSource = {
+  manifest(): Promise<ImageManifest>;
+  blob(digest: string): Promise<Buffer>;
+};
+
+const INDEX_MEDIA_TYPES = [
+  'application/vnd.oci.image.index.v1+json',
+  'application/vnd.docker.distribution.manifest.list.v2+json',
+];
+
+/**
+ * Loads the plugin registry metadata of a directory exported with
+ * `plugin package --export-to`, of an OCI image layout (directory or tar
+ * archive), or of an image in a registry.
+ */
+export async function loadPluginRegistryMetadata(
+  source: string,
+  options: MetadataSourceOptions = {},
+): Promise<PluginRegistryMetadata> {
+  if (!(await fs.pathExists(source))) {
+    if (!isRegistryImageReference(source)) {
+      throw new Error(`${source}: no such file or directory`);
+    }
+    return metadataFromImage(registryImage(source, options));
+  }
+  if ((await fs.stat(source)).isFile()) {
+    return metadataFromImage(layoutArchiveImage(source));
+  }
+  if (await isOciImageLayout(source)) {
+    return metadataFromImage(layoutDirectoryImage(source));
+  }
+  const metadataFile = path.join(source, 'index.json');
+  if (!(await fs.pathExists(metadataFile))) {
+    throw new Error(
+      `${source} is neither an OCI image layout nor a directory exported with the 'plugin package --export-to' command`,
+    );
+  }
+  return validatePluginRegistryMetadata(await fs.readJson(metadataFile));
+}
+
+/**
+ * Reads the metadata from the `io.backstage.dynamic-packages` manifest
+ * annotation, or from the `index.json` file of the image content for images
+ * whose annotations were dropped by the container tool.
+ */
+async function metadataFromImage(
+  image: ImageSource,
+): Promise<PluginRegistryMetadata> {
+  const manifest = await image.manifest();
+  const annotation = manifest.annotations?.[DYNAMIC_PACKAGES_ANNOTATION];
+  if (annotation) {
+    return decodePluginRegistryMetadata(annotation);
+  }
+  for (const layer of [...manifest.layers].reverse()) {
+    const data = Readable.from(await image.blob(layer.digest));
+    const files = await readTarFiles(
+      layer.mediaType.endsWith('gzip') ? data.pipe(createGunzip()) : data,
+      entryPath => entryPath === 'index.json',
+    );
+    const metadataFile = files.get('index.json');
+    if (metadataFile) {
+      return validatePluginRegistryMetadata(
+        JSON.parse(metadataFile.toString('utf8')),
+      );
+    }
+  }
+  throw new Error(
+    `The image has neither a '${DYNAMIC_PACKAGES_ANNOTATION}' annotation nor an 'index.json' file, it is not a dynamic plugins image`,
+  );
+}
+
+function layoutDirectoryImage(layoutDir: string): ImageSource {
+  return {
+    manifest: async () => (await readOciImageLayout(layoutDir)).manifest,
+    blob: digest => fs.readFile(blobPath(layoutDir, digest)),
+  };
+}
+
+function layoutArchiveImage(tarFile: string): ImageSource {
+  const readFile = async (entryPath: string) => {
+    const files = await readTarFiles(
+      fs.createReadStream(tarFile),
+      p => p === entryPath,
+    );
+    const data = files.get(entryPath);
+    if (!data) {
+      throw new Error(
+        `${tarFile} is not an OCI image layout archive, '${entryPath}' is missing`,
+      );
+    }
+    return data;
+  };
+  const blob = (digest: string) =>
+    readFile(`blobs/${digest.replace(':', '/')}`);
+  return {
+    manifest: async () => {
+      const index: ImageIndex = JSON.parse(
+        (await readFile('index.json')).toString('utf8'),
+      );
+      const descriptor = selectManifest(index, tarFile);
+      return JSON.parse((await blob(descriptor.digest)).toString('utf8'));
+    },
+    blob,
+  };
+}
+
+/**
+ * Whether a source that is not an existing file or directory is an image in a
+ * registry: it should name the registry host, and not look like a path.
+ */
+function isRegistryImageReference(source: string): boolean {
+  const value = source.replace(/^oci:\/\//, '').replace(/!.*$/, '');
+  if (/^\.{0,2}\//.test(value)) {
+    return false;
+  }
+  const firstSlash = value.indexOf('/');
+  const host = value.slice(0, Math.max(firstSlash, 0));
+  if (!host.includes('.') && !host.includes(':') && host !== 'localhost') {
+    return false;
+  }
+  try {
+    parseImageReference(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function registryImage(
+  source: string,
+  options: MetadataSourceOptions,
+): ImageSource {
+  // accept the `oci://` package references of the dynamic plugins configuration
+  const reference = parseImageReference(
+    source.replace(/^oci:\/\//, '').replace(/!.*$/, ''),
+  );
+  let client: RegistryClient | undefined;
+  const getClient = async () => {
+    client ??= new RegistryClient({
+      registry: reference.registry,
+      repository: reference.repository,
+      credentials: await findRegistryCredentials(
+        reference.registry,
+        reference.repository,
+        options.authfile ? [options.authfile] : undefined,
+      ),
+      plainHttp: options.plainHttp,
+    });
+    return client;
+  };
+  return {
+    manifest: async () => {
+      const registry = await getClient();
+      let fetched = await registry.getManifest(
+        reference.digest ?? reference.tag!,
+      );
+      if (INDEX_MEDIA_TYPES.some(t => fetched.mediaType.startsWith(t))) {
+        // plugin images are platform independent, any platform will do
+        const index: ImageIndex = JSON.parse(fetched.data.toString('utf8'));
+        if (index.manifests.length === 0) {
+          throw new Error(`The image index ${source} has no manifests`);
+        }
+        fetched = await registry.getManifest(index.manifests[0].digest);
+      }
+      return JSON.parse(fetched.data.toString('utf8'));
+    },
+    blob: async digest => (await getClient()).getBlob(digest),
+  };
+}
@@ -0,0 +1,102 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ReleaseManifest } from '@backstage/release-manifests';
+
+import chalk from 'chalk';
+
+import {
+  fetchBackstageManifest,
+  getCurrentBackstageVersion,
+} from '../../lib/backstageVersion';
+import {
+  getManifestStoreDir,
+  importManifest,
+  listStoredManifests,
+  storeManifest,
+} from '../../lib/manifestStore';
+import { Task } from '../../lib/tasks';
+
+export async function fetchCommand(versions: string[]): Promise<void> {
+  if (versions.length === 0) {
+    const backstageVersion = await getCurrentBackstageVersion();
+    if (!backstageVersion) {
+      throw new Error(
+        'No version given and no backstage.json file found with a valid version',
+      );
+    }
+    versions.push(backstageVersion);
+  }
+  for (const version of versions) {
+    let manifest: ReleaseManifest;
+    try {
+      manifest = await fetchBackstageManifest(version);
+    } catch (error) {
+      throw new Error(
+        `Failed to fetch the Backstage ${version} release manifest from ${
+          process.env.BACKSTAGE_VERSIONS_BASE_URL ||
+          'https://versions.backstage.io'
+        }: ${error}`,
+      );
+    }
+    const file = await storeManifest(manifest);
+    Task.log(
+      `Stored the Backstage ${chalk.cyan(version)} release manifest (${
+        manifest.packages.length
+      } packages) in ${chalk.cyan(file)}`,
+    );
+  }
+}
+
+export async function importCommand(files: string[]): Promise<void> {
+  for (const file of files) {
+    const {
+      version,
+      packageCount,
+      file: storedFile,
+    } = await importManifest(file);
+    Task.log(
+      `Imported the Backstage ${chalk.cyan(version)} release manifest (${packageCount} packages) from ${file} to ${chalk.cyan(storedFile)}`,
+    );
+  }
+}
+
+export async function listCommand(): Promise<void> {
+  const manifests = await listStoredManifests();
+  if (manifests.length === 0) {
+    Task.log(`No Backstage release manifest in ${getManifestStoreDir()}`);
+    return;
+  }
+  const rows = [
+    ['VERSION', 'PACKAGES', 'FILE'],
+    ...manifests.map(manifest => [
+      manifest.version,
+      String(manifest.packageCount),
+      manifest.file,
+    ]),
+  ];
+  const widths = rows[0].map((_, column) =>
+    Math.max(...rows.map(row => row[column].length)),
+  );
+  for (const row of rows) {
+    process.stdout.write(
+      `${row
+        .map((cell, column) => cell.padEnd(widths[column]))
+        .join('  ')
+        .trimEnd()}\n`,
+    );
+  }
+}
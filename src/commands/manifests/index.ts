@@ -0,0 +1 @@
+export { fetchCommand, importCommand, listCommand } from './command';
@@ -1,4 +1,5 @@
 import { PackageRoles } from '@backstage/cli-node';
+import { ForwardedError } from '@backstage/errors';
 
 import { spawn } from 'node:child_process';
 import { closeSync, openSync } from 'node:fs';
@@ -12,13 +13,38 @@ import YAML from 'yaml';
 import os from 'node:os';
 import path from 'node:path';
 
+import {
+  checkHostCompatibility,
+  formatCompatibilityTarget,
+  formatIncompatiblePackages,
+  resolveCompatibilityTarget,
+} from '../../lib/compatibility';
+import { matchesAnyGlob } from '../../lib/glob';
+import {
+  DYNAMIC_PACKAGES_ANNOTATION,
+  parseImageReference,
+  parseKeyValuePairs,
+  parsePlatform,
+  writeOciImageLayout,
+} from '../../lib/oci';
+import { runParallelWorkers } from '../../lib/parallel';
 import { paths } from '../../lib/paths';
-import { waitForExit } from '../../lib/run';
+import {
+  encodePluginRegistryMetadata,
+  PluginRegistryMetadata,
+  pluginRegistryMetadataEntry,
+} from '../../lib/pluginRegistryMetadata';
+import { run, waitForExit } from '../../lib/run';
 import { Task } from '../../lib/tasks';
+import {
+  parseWiringSkeleton,
+  WIRING_SKELETON_FILE,
+} from '../export-dynamic-plugin/wiring';
 
 export async function command(opts: OptionValues): Promise<void> {
   const {
     exportTo,
+    outputOci,
     forceExport,
     preserveTempDir,
     tag,
@@ -27,18 +53,28 @@ export async function command(opts: OptionValues): Promise<void> {
     platform,
     annotation,
     label,
+    include = [],
+    exclude = [],
+    pluginsDir = 'plugins',
+    parallel,
+    strict,
   } = opts;
-  if (!exportTo && !tag) {
+  const compatibilityTarget = resolveCompatibilityTarget({
+    backstageVersion: opts.targetBackstageVersion,
+    rhdhVersion: opts.rhdhVersion,
+  });
+  if (!exportTo && !tag && !outputOci) {
     Task.error(
-      `Neither ${chalk.white('--export-to')} or ${chalk.white('--tag')} was specified, either specify ${chalk.white('--export-to')} to export plugins to a directory or ${chalk.white('--tag')} to export plugins to a container image`,
+      `Neither ${chalk.white('--export-to')}, ${chalk.white('--output-oci')} or ${chalk.white('--tag')} was specified, either specify ${chalk.white('--export-to')} to export plugins to a directory, ${chalk.white('--output-oci')} to write an OCI image layout or ${chalk.white('--tag')} to export plugins to a container image`,
     );
     return;
   }
 
   // check if the container tool is available, skip if just exporting the plugins to a directory
+  // or writing the image with the built-in OCI writer
   let containerToolCmd = containerTool;
 
-  if (!exportTo) {
+  if (!exportTo && !outputOci) {
     let _containerTool = containerTool;
 
     // Check if useDocker is set to true and set the container tool to docker
@@ -86,9 +122,15 @@ export async function command(opts: OptionValues): Promise<void> {
       ? PackageRoles.getRoleInfo(workspacePackageRole)
       : undefined;
   const isMonoRepo = typeof workspacePackage.workspaces !== 'undefined';
+  if (isMonoRepo && !fs.existsSync(paths.resolveTarget(pluginsDir))) {
+    Task.error(
+      `The plugins directory ${chalk.white(pluginsDir)} does not exist, use ${chalk.white('--plugins-dir')} to specify where the plugin packages are located`,
+    );
+    return;
+  }
   // Find all plugin packages in the workspace
-  const packages = isMonoRepo
-    ? await discoverPluginPackages()
+  const discoveredPackages = isMonoRepo
+    ? await discoverPluginPackages(pluginsDir)
     : [
         {
           packageDirectory: '.',
@@ -98,107 +140,166 @@ export async function command(opts: OptionValues): Promise<void> {
           packageRoleInfo: workspacePackageRoleInfo,
         },
       ];
-  // run export-dynamic on each plugin package
-  for (const pluginPkg of packages) {
-    const { packageDirectory, packageFilePath, packageJson } = pluginPkg;
-    if (
-      !fs.existsSync(path.join(packageDirectory, 'dist-dynamic')) ||
-      forceExport
-    ) {
-      if (
-        Object.keys(packageJson.scripts as { [key: string]: string }).find(
-          script => script === 'export-dynamic',
-        )
-      ) {
-        Task.log(
-          `Running existing export-dynamic script on plugin package ${packageFilePath}`,
-        );
-        try {
-          await Task.forCommand(`yarn export-dynamic`, {
-            cwd: packageDirectory,
-          });
-        } catch (err) {
-          Task.log(
-            `Encountered an error running 'yarn export-dynamic' on plugin package ${packageFilePath}, this plugin will not be packaged.  The error was ${err}`,
-          );
-        }
-      } else {
-        Task.log(
-          `Using generated command to export plugin package ${packageFilePath}`,
-        );
-        try {
-          await Task.forCommand(
-            `${process.execPath} ${process.argv[1]} plugin export`,
-            { cwd: packageDirectory },
-          );
-        } catch (err) {
-          Task.log(
-            `Encountered an error running the generated export command on plugin package ${packageFilePath}, this plugin will not be packaged.  The error was ${err}`,
-          );
-        }
-      }
-    } else {
-      Task.log(
-        `Using existing 'dist-dynamic' directory at ${packageDirectory}`,
+  const packages = filterPluginPackages(discoveredPackages, include, exclude);
+  if (packages.length === 0) {
+    if (include.length > 0 || exclude.length > 0) {
+      throw new Error(
+        `No plugin package matches the ${chalk.white('--include')} and ${chalk.white('--exclude')} filters`,
       );
     }
+    throw new Error('No plugin package found');
+  }
+  if (include.length > 0 || exclude.length > 0) {
+    Task.log(
+      `Packaging ${packages.length} of ${discoveredPackages.length} plugin packages:`,
+    );
+    for (const { packageJson } of packages) {
+      Task.log(`  ${chalk.white(packageJson.name)}`);
+    }
   }
   // create temporary directory to hold staged plugins for packaging
   const tmpDir = fs.mkdtempSync(
     path.join(os.tmpdir(), 'package-dynamic-plugins'),
   );
-  const pluginRegistryMetadata = [];
+  const pluginRegistryMetadata: PluginRegistryMetadata = [];
   const pluginConfigs: Record<string, string> = {};
+  const wiringSkeletons: Record<string, string> = {};
+  const results = new Map<string, PluginPackageResult>();
+  const setResult = (
+    pluginPkg: { packageFilePath: string },
+    result: PluginPackageResult,
+  ) => {
+    results.set(pluginPkg.packageFilePath, result);
+    if (strict && !isPackaged(result)) {
+      throw new Error(
+        `Plugin package ${pluginPkg.packageFilePath} was not packaged (${result.reason}), stopping as ${chalk.white('--strict')} was specified`,
+      );
+    }
+  };
   try {
+    // run export-dynamic on each plugin package
+    if (parallel) {
+      // let the running exports complete when stopping in strict mode
+      let strictError: unknown;
+      await runParallelWorkers({
+        parallelismSetting: parallel === true ? undefined : parallel,
+        items: packages,
+        worker: async pluginPkg => {
+          if (strictError) {
+            return;
+          }
+          // buffer the output of each plugin so that logs don't interleave
+          const output: string[] = [];
+          const result = await exportPluginPackage(pluginPkg, {
+            forceExport,
+            log: message => output.push(`${message}\n`),
+            runCommand: (cmd, cwd) =>
+              run(cmd, [], {
+                cwd,
+                stdoutLogFunc: data => output.push(data.toString()),
+                stderrLogFunc: data => output.push(data.toString()),
+              }),
+          });
+          Task.section(`Export of ${pluginPkg.packageFilePath}`);
+          process.stderr.write(output.join(''));
+          try {
+            setResult(pluginPkg, result);
+          } catch (error) {
+            strictError = error;
+          }
+        },
+      });
+      if (strictError) {
+        throw strictError;
+      }
+    } else {
+      for (const pluginPkg of packages) {
+        setResult(
+          pluginPkg,
+          await exportPluginPackage(pluginPkg, {
+            forceExport,
+            log: message => Task.log(message),
+            runCommand: (cmd, cwd) => Task.forCommand(cmd, { cwd }),
+          }),
+        );
+      }
+    }
+
     // Stage each dist-dynamic tree via npm pack + tar (see RHDHBUGS-1968) and metadata for the registry
     for (const pluginPkg of packages) {
       const { packageDirectory, packageFilePath } = pluginPkg;
+      const exportResult = results.get(packageFilePath);
+      if (!exportResult || !isPackaged(exportResult)) {
+        continue;
+      }
       const distDynamicDirectory = path.join(packageDirectory, 'dist-dynamic');
-      const pluginPackageJson = (await fs.readJson(
-        path.join(distDynamicDirectory, 'package.json'),
-      )) as PackageJson;
-      const packageName = pluginPackageJson
-        .name!.replace(/-dynamic$/, '')
-        .replace(/^@/, '')
-        .replace(/\//, '-');
-      const targetDirectory = path.join(tmpDir, packageName);
-      Task.log(
-        `Packing '${distDynamicDirectory}' into staging directory '${targetDirectory}' (npm pack + tar)`,
+      const distDynamicPackageJson = path.join(
+        distDynamicDirectory,
+        'package.json',
       );
+      if (!fs.existsSync(distDynamicPackageJson)) {
+        Task.log(
+          `No '${distDynamicPackageJson}' file found, the plugin ${packageFilePath} will not be packaged`,
+        );
+        setResult(pluginPkg, {
+          status: 'skipped',
+          reason: `the export did not produce a '${distDynamicPackageJson}' file`,
+        });
+        continue;
+      }
+      if (compatibilityTarget) {
+        const target = formatCompatibilityTarget(compatibilityTarget);
+        const incompatiblePackages = await checkHostCompatibility(
+          distDynamicDirectory,
+          compatibilityTarget,
+        );
+        if (incompatiblePackages.length > 0) {
+          Task.log(
+            `The plugin ${packageFilePath} is not compatible with ${target}, it will not be packaged:${formatIncompatiblePackages(
+              incompatiblePackages,
+            )}`,
+          );
+          setResult(pluginPkg, {
+            status: 'failed',
+            reason: `not compatible with ${target}: ${incompatiblePackages
+              .map(p => p.name)
+              .join(', ')}`,
+          });
+          continue;
+        }
+      }
+      let stagingError: unknown;
       try {
+        const pluginPackageJson = (await fs.readJson(
+          distDynamicPackageJson,
+        )) as PackageJson;
+        const packageName = pluginPackageJson
+          .name!.replace(/-dynamic$/, '')
+          .replace(/^@/, '')
+          .replace(/\//, '-');
+        const targetDirectory = path.join(tmpDir, packageName);
+        Task.log(
+          `Packing '${distDynamicDirectory}' into staging directory '${targetDirectory}' (npm pack + tar)`,
+        );
         await stageDistDynamicViaNpmPack({
           distDynamicDirectory,
           targetDirectory,
           packScratchParent: tmpDir,
         });
-        const {
-          name,
-          version,
-          description,
-          backstage,
-          homepage,
-          repository,
-          license,
-          maintainers,
-          author,
-          bugs,
-          keywords,
-        } = pluginPackageJson;
         pluginRegistryMetadata.push({
-          [packageName]: {
-            name,
-            version,
-            description,
-            backstage,
-            homepage,
-            repository,
-            license,
-            maintainers,
-            author,
-            bugs,
-            keywords,
-          },
+          [packageName]: pluginRegistryMetadataEntry(pluginPackageJson),
         });
+        // frontend plugins come with a wiring skeleton generated by the export
+        const wiringSkeletonPath = path.join(
+          distDynamicDirectory,
+          WIRING_SKELETON_FILE,
+        );
+        if (fs.existsSync(wiringSkeletonPath)) {
+          wiringSkeletons[packageName] = fs.readFileSync(
+            wiringSkeletonPath,
+            'utf8',
+          );
+        }
         // some plugins include configuration snippets in an app-config.janus-idp.yaml
         const pluginConfigPath =
           discoverPluginConfigurationFile(packageDirectory);
@@ -218,6 +319,13 @@ export async function command(opts: OptionValues): Promise<void> {
         Task.log(
           `Encountered an error staging plugin ${packageFilePath} via npm pack, the plugin will not be packaged. The error was ${err}`,
         );
+        stagingError = err;
+      }
+      if (stagingError) {
+        setResult(pluginPkg, {
+          status: 'failed',
+          reason: `staging via npm pack failed: ${errorSummary(stagingError)}`,
+        });
       }
     }
 
@@ -228,6 +336,9 @@ export async function command(opts: OptionValues): Promise<void> {
       metadataFile,
       JSON.stringify(pluginRegistryMetadata, undefined, 2),
     );
+    const dynamicPackagesAnnotation = encodePluginRegistryMetadata(
+      pluginRegistryMetadata,
+    );
     if (exportTo) {
       // copy the temporary directory contents to the target directory
       fs.mkdirSync(exportTo, { recursive: true });
@@ -237,10 +348,32 @@ export async function command(opts: OptionValues): Promise<void> {
         const destination = path.join(exportTo, entry);
         fs.copySync(source, destination, { overwrite: true });
       });
-    } else {
+    }
+    if (outputOci) {
+      // build the image without any container tool
+      Task.log(`Writing OCI image layout to ${outputOci}`);
+      const { manifest } = await writeOciImageLayout({
+        sourceDir: tmpDir,
+        outputPath: outputOci,
+        platform: parsePlatform(platform),
+        annotations: {
+          [DYNAMIC_PACKAGES_ANNOTATION]: dynamicPackagesAnnotation,
+          ...parseKeyValuePairs(annotation, '--annotation'),
+        },
+        labels: parseKeyValuePairs(label, '--label'),
+        refName: tag ? parseImageReference(tag).tag : undefined,
+      });
+      Task.log(
+        `Successfully wrote image ${chalk.white(manifest.digest)} with following plugins:`,
+      );
+      for (const plugin of pluginRegistryMetadata) {
+        Task.log(`  ${chalk.white(Object.keys(plugin)[0])}`);
+      }
+    }
+    if (!exportTo && !outputOci) {
       // collect flags for the container build command
       const flags = [
-        `--annotation io.backstage.dynamic-packages='${Buffer.from(JSON.stringify(pluginRegistryMetadata)).toString('base64')}'`,
+        `--annotation ${DYNAMIC_PACKAGES_ANNOTATION}='${dynamicPackagesAnnotation}'`,
       ];
       if (platform) {
         flags.push(`--platform ${platform}`);
@@ -272,13 +405,13 @@ COPY . .
     }
     // print out a configuration example based on available plugin data
     try {
-      const configurationExample = YAML.stringify({
+      const example = new YAML.Document({
         plugins: pluginRegistryMetadata.map(plugin => {
           const packageName = Object.keys(plugin)[0];
           const pluginConfig = pluginConfigs[packageName];
           const packageString = exportTo
             ? `./local-plugins/${packageName}`
-            : `oci://${tag}!${packageName}`;
+            : `oci://${tag ?? '<image>:<tag>'}!${packageName}`;
           return {
             package: packageString,
             disabled: false,
@@ -286,6 +419,26 @@ COPY . .
           };
         }),
       });
+      // complete the frontend plugins which are not wired by their plugin config
+      pluginRegistryMetadata.forEach((plugin, index) => {
+        const skeleton = wiringSkeletons[Object.keys(plugin)[0]];
+        const parsed = skeleton ? parseWiringSkeleton(skeleton) : undefined;
+        if (!parsed) {
+          return;
+        }
+        const wiringPath = [
+          'plugins',
+          index,
+          'pluginConfig',
+          'dynamicPlugins',
+          'frontend',
+          parsed.scalprumName,
+        ];
+        if (!example.hasIn(wiringPath)) {
+          example.setIn(wiringPath, parsed.wiring);
+        }
+      });
+      const configurationExample = example.toString();
       Task.log(
         `\nHere is an example dynamic-plugins.yaml for these plugins: \n\n${chalk.white(configurationExample)}\n\n`,
       );
@@ -295,8 +448,12 @@ COPY . .
       );
     }
   } catch (e) {
-    Task.error(`Error encountered while packaging dynamic plugins: ${e}`);
+    throw new ForwardedError(
+      'Error encountered while packaging dynamic plugins',
+      e,
+    );
   } finally {
+    printSummary(packages, results);
     try {
       if (tmpDir && !preserveTempDir) {
         fs.rmSync(tmpDir, { recursive: true });
@@ -310,7 +467,12 @@ COPY . .
       );
     }
   }
-  return;
+  const notPackaged = [...results.values()].filter(r => !isPackaged(r));
+  if (notPackaged.length > 0) {
+    throw new Error(
+      `${notPackaged.length} of ${packages.length} plugin packages were not packaged, see the summary above`,
+    );
+  }
 }
 
 type StageDistDynamicViaNpmPackOptions = {
@@ -422,10 +584,10 @@ tar -xzf "\${tgzs[0]}" -C ${qExtract} --strip-components=1
  * to be exported as dynamic plugins
  * @returns
  */
-async function discoverPluginPackages() {
+async function discoverPluginPackages(pluginsDir: string) {
   const packageJsonFilePaths = [];
   for (const file of discoverFiles(
-    'plugins',
+    pluginsDir,
     ['package.json'],
     ['node_modules', 'dist-dynamic'],
   )) {
@@ -464,6 +626,136 @@ async function discoverPluginPackages() {
   });
 }
 
+type PluginPackageResult = {
+  /**
+   * - `exported`: exported and packaged
+   * - `reused`: packaged from an existing `dist-dynamic` directory
+   * - `skipped`: the export did not produce a `dist-dynamic` package
+   * - `failed`: the export or the staging failed
+   */
+  status: 'exported' | 'reused' | 'skipped' | 'failed';
+  reason?: string;
+};
+
+/** First line of an error, the command output has already been printed. */
+function errorSummary(error: unknown): string {
+  return `${error}`.split('\n')[0];
+}
+
+function isPackaged(result: PluginPackageResult): boolean {
+  return result.status === 'exported' || result.status === 'reused';
+}
+
+function printSummary(
+  packages: { packageFilePath: string }[],
+  results: Map<string, PluginPackageResult>,
+) {
+  if (results.size === 0) {
+    return;
+  }
+  Task.section('Summary');
+  for (const { packageFilePath } of packages) {
+    const result = results.get(packageFilePath);
+    if (!result) {
+      continue;
+    }
+    const icon = isPackaged(result) ? chalk.green('✔') : chalk.red('✘');
+    const reason = result.reason ? `, ${result.reason}` : '';
+    Task.log(`  ${icon} ${packageFilePath}: ${result.status}${reason}`);
+  }
+}
+
+type ExportPluginPackageOptions = {
+  forceExport?: boolean;
+  log: (message: string) => void;
+  runCommand: (cmd: string, cwd: string) => Promise<void>;
+};
+
+/**
+ * Runs `yarn export-dynamic`, or the generated `plugin export` command, on a
+ * plugin package unless it already has a `dist-dynamic` directory.
+ */
+async function exportPluginPackage(
+  pluginPkg: {
+    packageDirectory: string;
+    packageFilePath: string;
+    packageJson: PackageJson;
+  },
+  options: ExportPluginPackageOptions,
+): Promise<PluginPackageResult> {
+  const { packageDirectory, packageFilePath, packageJson } = pluginPkg;
+  const { forceExport, log, runCommand } = options;
+  if (
+    fs.existsSync(path.join(packageDirectory, 'dist-dynamic')) &&
+    !forceExport
+  ) {
+    log(`Using existing 'dist-dynamic' directory at ${packageDirectory}`);
+    return {
+      status: 'reused',
+      reason: `using the existing 'dist-dynamic' directory`,
+    };
+  }
+  if (
+    Object.keys(packageJson.scripts as { [key: string]: string }).find(
+      script => script === 'export-dynamic',
+    )
+  ) {
+    log(
+      `Running existing export-dynamic script on plugin package ${packageFilePath}`,
+    );
+    try {
+      await runCommand(`yarn export-dynamic`, packageDirectory);
+    } catch (err) {
+      log(
+        `Encountered an error running 'yarn export-dynamic' on plugin package ${packageFilePath}, this plugin will not be packaged.  The error was ${err}`,
+      );
+      return {
+        status: 'failed',
+        reason: `'yarn export-dynamic' failed: ${errorSummary(err)}`,
+      };
+    }
+  } else {
+    log(`Using generated command to export plugin package ${packageFilePath}`);
+    try {
+      await runCommand(
+        `${process.execPath} ${process.argv[1]} plugin export`,
+        packageDirectory,
+      );
+    } catch (err) {
+      log(
+        `Encountered an error running the generated export command on plugin package ${packageFilePath}, this plugin will not be packaged.  The error was ${err}`,
+      );
+      return {
+        status: 'failed',
+        reason: `'plugin export' failed: ${errorSummary(err)}`,
+      };
+    }
+  }
+  return { status: 'exported' };
+}
+
+/**
+ * Keeps the packages whose name or directory (relative to the workspace root)
+ * matches one of the `include` globs, if any, and none of the `exclude` globs.
+ */
+function filterPluginPackages<
+  T extends { packageDirectory: string; packageJson: PackageJson },
+>(packages: T[], include: string[], exclude: string[]): T[] {
+  return packages.filter(({ packageDirectory, packageJson }) => {
+    const candidates = [
+      packageJson.name ?? '',
+      path
+        .relative(paths.targetDir, path.resolve(packageDirectory))
+        .split(path.sep)
+        .join('/') || '.',
+    ];
+    return (
+      (include.length === 0 || matchesAnyGlob(candidates, include)) &&
+      !matchesAnyGlob(candidates, exclude)
+    );
+  });
+}
+
 /**
  * Scans the specified directory for plugin configuration files that
  * match known potential file names.
@@ -0,0 +1,131 @@
+import chalk from 'chalk';
+import { OptionValues } from 'commander';
+import fs from 'fs-extra';
+
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  blobPath,
+  DYNAMIC_PACKAGES_ANNOTATION,
+  findRegistryCredentials,
+  formatImageReference,
+  isOciImageLayout,
+  parseImageReference,
+  parseKeyValuePairs,
+  parsePlatform,
+  readOciImageLayout,
+  RegistryClient,
+  writeOciImageLayout,
+} from '../../lib/oci';
+import {
+  encodePluginRegistryMetadata,
+  validatePluginRegistryMetadata,
+} from '../../lib/pluginRegistryMetadata';
+import { Task } from '../../lib/tasks';
+
+export async function command(
+  source: string,
+  opts: OptionValues,
+): Promise<void> {
+  const { tag, platform, annotation, label, plainHttp, authfile } = opts;
+  const reference = parseImageReference(tag);
+  const sourceDir = path.resolve(source);
+  if (!(await fs.pathExists(sourceDir))) {
+    throw new Error(`The source directory ${sourceDir} does not exist`);
+  }
+
+  let tmpDir: string | undefined;
+  try {
+    let layoutDir = sourceDir;
+    if (await isOciImageLayout(sourceDir)) {
+      if (annotation || label) {
+        Task.log(
+          `The ${chalk.white('--annotation')} and ${chalk.white(
+            '--label',
+          )} flags are ignored when pushing an existing OCI image layout`,
+        );
+      }
+    } else {
+      // build the image from a directory exported by `plugin package --export-to`
+      const metadataFile = path.join(sourceDir, 'index.json');
+      if (!(await fs.pathExists(metadataFile))) {
+        throw new Error(
+          `${sourceDir} is neither an OCI image layout nor a directory exported with the ${chalk.white(
+            'plugin package --export-to',
+          )} command`,
+        );
+      }
+      const pluginRegistryMetadata = validatePluginRegistryMetadata(
+        await fs.readJson(metadataFile),
+      );
+      tmpDir = await fs.mkdtemp(path.join(os.tmpdir(), 'rhdh-cli-push-'));
+      Task.log(`Building image from ${sourceDir}`);
+      await writeOciImageLayout({
+        sourceDir,
+        outputPath: tmpDir,
+        platform: parsePlatform(platform),
+        annotations: {
+          [DYNAMIC_PACKAGES_ANNOTATION]: encodePluginRegistryMetadata(
+            pluginRegistryMetadata,
+          ),
+          ...parseKeyValuePairs(annotation, '--annotation'),
+        },
+        labels: parseKeyValuePairs(label, '--label'),
+        refName: reference.tag,
+      });
+      layoutDir = tmpDir;
+    }
+
+    const image = await readOciImageLayout(layoutDir, reference.tag);
+    if (reference.digest && reference.digest !== image.descriptor.digest) {
+      throw new Error(
+        `The image digest ${image.descriptor.digest} does not match the digest of the ${chalk.white(
+          '--tag',
+        )} reference ${reference.digest}`,
+      );
+    }
+
+    const credentials = await findRegistryCredentials(
+      reference.registry,
+      reference.repository,
+      authfile ? [authfile] : undefined,
+    );
+    const client = new RegistryClient({
+      registry: reference.registry,
+      repository: reference.repository,
+      credentials,
+      plainHttp,
+      onRetry: (reason, delay) =>
+        Task.log(
+          `Pushing the manifest failed (${reason}), retrying in ${delay}ms`,
+        ),
+    });
+
+    Task.log(`Pushing image to ${formatImageReference(reference)}`);
+    for (const blob of [image.manifest.config, ...image.manifest.layers]) {
+      const uploaded = await Task.forItem('pushing', blob.digest, () =>
+        client.pushBlob(blob, blobPath(layoutDir, blob.digest)),
+      );
+      if (!uploaded) {
+        Task.log(`  blob ${blob.digest} already exists, skipped`);
+      }
+    }
+    const digest = await Task.forItem('pushing', 'manifest', () =>
+      client.pushManifest(
+        reference.tag ?? image.descriptor.digest,
+        image.manifestData,
+        image.descriptor.mediaType,
+      ),
+    );
+    Task.log(
+      `Successfully pushed ${chalk.white(
+        formatImageReference(reference),
+      )} with digest ${chalk.white(digest)}`,
+    );
+  } finally {
+    if (tmpDir) {
+      await fs.remove(tmpDir);
+    }
+  }
+}
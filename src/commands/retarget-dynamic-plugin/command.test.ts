@@ -0,0 +1,143 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import os from 'node:os';
+import path from 'node:path';
+
+import { getBackstageManifest } from '../../lib/backstageVersion';
+import { command } from './command';
+
+jest.mock('../../lib/backstageVersion', () => ({
+  ...jest.requireActual('../../lib/backstageVersion'),
+  getBackstageManifest: jest.fn(),
+}));
+
+describe('plugin retarget', () => {
+  let target: string;
+  const pkg = {
+    name: '@example/plugin-example-backend-dynamic',
+    version: '1.0.0',
+    backstage: { role: 'backend-plugin', 'supported-versions': '1.40.0' },
+    dependencies: { '@backstage/plugin-catalog-common': '^1.1.0' },
+    peerDependencies: { '@backstage/backend-plugin-api': '^1.4.0' },
+    resolutions: {
+      '@backstage/backend-plugin-api': '1.4.0',
+      'example-lib': 'file:./embedded/example-lib',
+    },
+  };
+  const embeddedPkg = {
+    name: 'example-lib',
+    peerDependencies: { '@backstage/backend-plugin-api': '^1.2.0' },
+  };
+
+  beforeEach(async () => {
+    target = await fs.mkdtemp(path.join(os.tmpdir(), 'retarget-test-'));
+    await fs.outputJson(path.join(target, 'package.json'), pkg);
+    await fs.outputJson(
+      path.join(target, 'embedded/example-lib/package.json'),
+      embeddedPkg,
+    );
+    jest.spyOn(process.stderr, 'write').mockReturnValue(true);
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await fs.remove(target);
+  });
+
+  it('rewrites the versions for a newer release', async () => {
+    jest.mocked(getBackstageManifest).mockResolvedValue(
+      new Map([
+        ['@backstage/backend-plugin-api', '1.5.0'],
+        ['@backstage/plugin-catalog-common', '1.2.0'],
+      ]),
+    );
+
+    await command(target, {
+      targetBackstageVersion: '1.42.0',
+      install: false,
+    });
+
+    await expect(
+      fs.readJson(path.join(target, 'package.json')),
+    ).resolves.toMatchObject({
+      backstage: { 'supported-versions': '1.42.0' },
+      dependencies: { '@backstage/plugin-catalog-common': '^1.1.0' },
+      peerDependencies: { '@backstage/backend-plugin-api': '^1.5.0' },
+      resolutions: { '@backstage/backend-plugin-api': '1.5.0' },
+    });
+    await expect(
+      fs.readJson(path.join(target, 'embedded/example-lib/package.json')),
+    ).resolves.toMatchObject({
+      peerDependencies: { '@backstage/backend-plugin-api': '^1.5.0' },
+    });
+  });
+
+  it('rejects an incompatible release without modifying the plugin', async () => {
+    jest
+      .mocked(getBackstageManifest)
+      .mockResolvedValue(new Map([['@backstage/backend-plugin-api', '1.3.0']]));
+
+    await expect(
+      command(target, { targetBackstageVersion: '1.38.0', install: false }),
+    ).rejects.toThrow(
+      /not compatible with Backstage 1\.38\.0[^]*@backstage\/backend-plugin-api.*\^1\.4\.0: the host provides 1\.3\.0/,
+    );
+
+    await expect(
+      fs.readJson(path.join(target, 'package.json')),
+    ).resolves.toEqual(pkg);
+    await expect(
+      fs.readJson(path.join(target, 'embedded/example-lib/package.json')),
+    ).resolves.toEqual(embeddedPkg);
+  });
+
+  it('rejects a release without some of the peer dependencies', async () => {
+    jest.mocked(getBackstageManifest).mockResolvedValue(new Map());
+
+    await expect(
+      command(target, { targetBackstageVersion: '1.42.0', install: false }),
+    ).rejects.toThrow(/backend-plugin-api.*\^1\.4\.0: not part of the host/);
+    await expect(
+      fs.readJson(path.join(target, 'package.json')),
+    ).resolves.toEqual(pkg);
+  });
+
+  it('rejects a release that the embedded packages are not compatible with', async () => {
+    const incompatibleEmbeddedPkg = {
+      ...embeddedPkg,
+      peerDependencies: { '@backstage/backend-plugin-api': '>=1.6.0 <2.0.0' },
+    };
+    await fs.outputJson(
+      path.join(target, 'embedded/example-lib/package.json'),
+      incompatibleEmbeddedPkg,
+    );
+    jest
+      .mocked(getBackstageManifest)
+      .mockResolvedValue(new Map([['@backstage/backend-plugin-api', '1.5.0']]));
+
+    await expect(
+      command(target, { targetBackstageVersion: '1.42.0', install: false }),
+    ).rejects.toThrow(
+      /backend-plugin-api.*>=1\.6\.0 <2\.0\.0: the host provides 1\.5\.0/,
+    );
+    await expect(
+      fs.readJson(path.join(target, 'package.json')),
+    ).resolves.toEqual(pkg);
+  });
+});
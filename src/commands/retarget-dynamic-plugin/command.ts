@@ -0,0 +1,172 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import chalk from 'chalk';
+import { OptionValues } from 'commander';
+import fs from 'fs-extra';
+
+import { execSync } from 'child_process';
+import path from 'path';
+
+import { getBackstageManifest } from '../../lib/backstageVersion';
+import {
+  findIncompatiblePackages,
+  formatCompatibilityTarget,
+  formatIncompatiblePackages,
+  resolveCompatibilityTarget,
+} from '../../lib/compatibility';
+import { paths } from '../../lib/paths';
+import { Task } from '../../lib/tasks';
+import {
+  createSharedPackagesRules,
+  installDynamicPlugin,
+} from '../export-dynamic-plugin/backend';
+import {
+  findDowngrades,
+  retargetPackageVersions,
+  RetargetedVersion,
+  VersionFields,
+} from './retarget';
+
+const BACKEND_ROLES = ['backend-plugin', 'backend-plugin-module'];
+
+export async function command(
+  dir: string | undefined,
+  opts: OptionValues,
+): Promise<void> {
+  const target = paths.resolveTarget(dir ?? 'dist-dynamic');
+  const compatibilityTarget = resolveCompatibilityTarget({
+    backstageVersion: opts.targetBackstageVersion,
+    rhdhVersion: opts.rhdhVersion,
+  });
+  if (!compatibilityTarget) {
+    throw new Error(
+      `No target release, set either ${chalk.cyan('--target-backstage-version')} or ${chalk.cyan('--rhdh-version')}`,
+    );
+  }
+  const packageFile = path.join(target, 'package.json');
+  if (!(await fs.pathExists(packageFile))) {
+    throw new Error(
+      `No exported dynamic plugin found in ${chalk.cyan(target)}, run ${chalk.cyan('plugin export')} first`,
+    );
+  }
+
+  const pkg = await fs.readJson(packageFile);
+  const { backstageVersion } = compatibilityTarget;
+  Task.section(
+    `Retargeting ${pkg.name} to ${formatCompatibilityTarget(compatibilityTarget)}`,
+  );
+  const hostPackages = await getBackstageManifest(backstageVersion);
+
+  Task.log(
+    `Setting ${chalk.cyan('supported-versions')} to ${chalk.cyan(backstageVersion)}`,
+  );
+  pkg.backstage = { ...pkg.backstage, 'supported-versions': backstageVersion };
+  const retargeted = retargetPackageVersions(pkg, hostPackages);
+  logRetargetedVersions(retargeted);
+
+  // Embedded packages are referenced by `file:` resolutions of the main package
+  const embedded = Object.entries<string>(pkg.resolutions ?? {}).filter(
+    ([_, resolution]) => resolution.startsWith('file:'),
+  );
+  const embeddedPackageFiles = new Map<string, VersionFields>();
+  const embeddedPeerDependencies: VersionFields['peerDependencies'][] = [];
+  for (const [name, resolution] of embedded) {
+    const embeddedPackageFile = path.join(
+      target,
+      resolution.slice('file:'.length),
+      'package.json',
+    );
+    if (!(await fs.pathExists(embeddedPackageFile))) {
+      continue;
+    }
+    const embeddedPkg: VersionFields = await fs.readJson(embeddedPackageFile);
+    const embeddedRetargeted = retargetPackageVersions(
+      embeddedPkg,
+      hostPackages,
+    );
+    if (embeddedRetargeted.length > 0) {
+      Task.log(`Retargeting embedded package ${chalk.cyan(name)}`);
+      logRetargetedVersions(embeddedRetargeted);
+      retargeted.push(...embeddedRetargeted);
+      embeddedPackageFiles.set(embeddedPackageFile, embeddedPkg);
+    }
+    embeddedPeerDependencies.push(embeddedPkg.peerDependencies);
+  }
+
+  // The rewritten ranges always match the host release: check the ranges that
+  // could not be rewritten, in the main and embedded packages, and that the
+  // host doesn't lower any version
+  const incompatiblePackages = [
+    ...[pkg.peerDependencies, ...embeddedPeerDependencies].flatMap(
+      peerDependencies =>
+        findIncompatiblePackages(peerDependencies, hostPackages),
+    ),
+    ...findDowngrades(retargeted),
+  ].filter(
+    (p, index, all) =>
+      all.findIndex(o => o.name === p.name && o.range === p.range) === index,
+  );
+  if (incompatiblePackages.length > 0) {
+    throw new Error(
+      `The dynamic plugin is not compatible with ${formatCompatibilityTarget(
+        compatibilityTarget,
+      )}, it has not been modified:${formatIncompatiblePackages(
+        incompatiblePackages,
+      )}`,
+    );
+  }
+
+  await fs.writeJson(packageFile, pkg, { spaces: 2 });
+  for (const [embeddedPackageFile, embeddedPkg] of embeddedPackageFiles) {
+    await fs.writeJson(embeddedPackageFile, embeddedPkg, { spaces: 2 });
+  }
+
+  if (!BACKEND_ROLES.includes(pkg.backstage?.role)) {
+    Task.log(
+      chalk.yellow(
+        `The frontend assets are not rebuilt: export the plugin again if the shared modules of the host changed`,
+      ),
+    );
+  } else if (opts.install) {
+    const embeddedPackages = embedded.map(([name]) => name);
+    await installDynamicPlugin({
+      target,
+      isYarnV1: execSync('yarn --version').toString().startsWith('1.'), // NOSONAR
+      // The retargeted resolutions change the lockfile
+      frozenLockfile: false,
+      embeddedPackages,
+      sharedPackages: createSharedPackagesRules(
+        (opts.sharedPackage || []) as string[],
+        embeddedPackages,
+      ),
+      allowNative: (opts.allowNativePackage || []) as string[],
+    });
+  }
+  Task.log(
+    chalk.green(
+      `Dynamic plugin retargeted to ${formatCompatibilityTarget(compatibilityTarget)}`,
+    ),
+  );
+}
+
+function logRetargetedVersions(retargeted: RetargetedVersion[]) {
+  for (const { field, name, from, to } of retargeted) {
+    Task.log(
+      `  ${field}: ${chalk.cyan(name)} from ${chalk.yellow(from)} to ${chalk.green(to)}`,
+    );
+  }
+}
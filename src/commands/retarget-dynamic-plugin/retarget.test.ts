@@ -0,0 +1,89 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { retargetPackageVersions } from './retarget';
+
+describe('retargetPackageVersions', () => {
+  const hostPackages = new Map([
+    ['@backstage/backend-plugin-api', '1.4.0'],
+    ['@backstage/catalog-model', '1.7.5'],
+    ['@backstage/plugin-catalog-node', '1.18.0'],
+  ]);
+
+  it('rewrites the peer dependencies and resolutions of the host packages', () => {
+    const pkg = {
+      dependencies: {
+        '@backstage/catalog-model': '~1.7.0',
+        lodash: '^4.17.21',
+      },
+      peerDependencies: {
+        '@backstage/backend-plugin-api': '^1.2.0',
+        '@backstage/plugin-catalog-node': '1.16.0',
+      },
+      resolutions: {
+        '@backstage/backend-plugin-api': '1.2.0',
+        '@backstage/catalog-model': 'npm:@backstage/catalog-model@1.7.0',
+        'example-lib': 'file:./embedded/example-lib',
+      },
+    };
+
+    expect(retargetPackageVersions(pkg, hostPackages)).toEqual([
+      {
+        field: 'peerDependencies',
+        name: '@backstage/backend-plugin-api',
+        from: '^1.2.0',
+        to: '^1.4.0',
+      },
+      {
+        field: 'peerDependencies',
+        name: '@backstage/plugin-catalog-node',
+        from: '1.16.0',
+        to: '1.18.0',
+      },
+      {
+        field: 'resolutions',
+        name: '@backstage/backend-plugin-api',
+        from: '1.2.0',
+        to: '1.4.0',
+      },
+    ]);
+    expect(pkg.dependencies).toEqual({
+      '@backstage/catalog-model': '~1.7.0',
+      lodash: '^4.17.21',
+    });
+    expect(pkg.peerDependencies).toEqual({
+      '@backstage/backend-plugin-api': '^1.4.0',
+      '@backstage/plugin-catalog-node': '1.18.0',
+    });
+    expect(pkg.resolutions['@backstage/catalog-model']).toBe(
+      'npm:@backstage/catalog-model@1.7.0',
+    );
+  });
+
+  it('leaves complex ranges and up-to-date versions unchanged', () => {
+    const pkg = {
+      peerDependencies: {
+        '@backstage/backend-plugin-api': '>=1.0.0 <2.0.0',
+        '@backstage/catalog-model': '^1.7.5',
+      },
+    };
+
+    expect(retargetPackageVersions(pkg, hostPackages)).toEqual([]);
+    expect(pkg.peerDependencies['@backstage/backend-plugin-api']).toBe(
+      '>=1.0.0 <2.0.0',
+    );
+  });
+});
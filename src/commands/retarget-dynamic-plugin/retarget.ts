@@ -0,0 +1,112 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import * as semver from 'semver';
+
+import { IncompatiblePackage } from '../../lib/compatibility';
+
+// The private dependencies are left unchanged: the plugin was built and
+// tested with them
+const VERSION_FIELDS = ['peerDependencies', 'resolutions'] as const;
+
+/** A version spec rewritten for the host release */
+export type RetargetedVersion = {
+  field: (typeof VERSION_FIELDS)[number];
+  name: string;
+  from: string;
+  to: string;
+};
+
+export type VersionFields = Partial<
+  Record<(typeof VERSION_FIELDS)[number], Record<string, string>>
+>;
+
+/**
+ * Returns the version spec of a package in the host release, keeping the
+ * range prefix of the given version spec: `^1.2.0` becomes `^1.3.0` and
+ * `1.2.0` becomes `1.3.0`, as `backstage:^` and `backstage:*` would resolve.
+ * Other ranges are not rewritten.
+ */
+function retargetVersionSpec(
+  versionSpec: string,
+  hostVersion: string,
+): string | undefined {
+  const match = versionSpec.match(/^([\^~]?)(.+)$/);
+  if (!match || !semver.valid(match[2])) {
+    return undefined;
+  }
+  return `${match[1]}${hostVersion}`;
+}
+
+/**
+ * Rewrites, in the peer dependencies and resolutions of an exported dynamic
+ * plugin package, the version specs of the packages of the
+ * host release with their version in the release manifest. Resolutions are
+ * pinned to the exact version.
+ *
+ * @returns the rewritten version specs
+ */
+export function retargetPackageVersions(
+  pkg: VersionFields,
+  hostPackages: Map<string, string>,
+): RetargetedVersion[] {
+  const retargeted: RetargetedVersion[] = [];
+  for (const field of VERSION_FIELDS) {
+    for (const [name, from] of Object.entries(pkg[field] ?? {})) {
+      const hostVersion = hostPackages.get(name);
+      if (!hostVersion) {
+        continue;
+      }
+      const to =
+        field === 'resolutions'
+          ? semver.valid(from) && hostVersion
+          : retargetVersionSpec(from, hostVersion);
+      if (to && to !== from) {
+        pkg[field]![name] = to;
+        retargeted.push({ field, name, from, to });
+      }
+    }
+  }
+  return retargeted;
+}
+
+/**
+ * Returns the rewritten version specs that lower the version of a package:
+ * the host release is older than the one the plugin was exported for, and
+ * won't provide the APIs the plugin was built against.
+ */
+export function findDowngrades(
+  retargeted: RetargetedVersion[],
+): IncompatiblePackage[] {
+  const downgrades = new Map<string, IncompatiblePackage>();
+  for (const { name, from, to } of retargeted) {
+    const fromVersion = semver.minVersion(from);
+    const toVersion = semver.minVersion(to);
+    if (
+      fromVersion &&
+      toVersion &&
+      semver.lt(toVersion, fromVersion) &&
+      !downgrades.has(name)
+    ) {
+      downgrades.set(name, {
+        name,
+        range: from,
+        hostVersion: toVersion.version,
+      });
+    }
+  }
+  return [...downgrades.values()];
+}
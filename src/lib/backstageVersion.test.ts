@@ -0,0 +1,174 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { getManifestByVersion } from '@backstage/release-manifests';
+
+import fs from 'fs-extra';
+
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  clearManifestCache,
+  getWorkspaceBackstageVersion,
+  resolveBackstageVersion,
+} from './backstageVersion';
+import { readStoredManifest, storeManifest } from './manifestStore';
+
+jest.mock('@backstage/release-manifests', () => ({
+  getManifestByVersion: jest.fn(),
+}));
+
+const mockPaths: { targetDir: string; targetRoot?: string } = {
+  targetDir: '',
+};
+jest.mock('./paths', () => ({
+  paths: {
+    get targetDir() {
+      return mockPaths.targetDir;
+    },
+    get targetRoot() {
+      return mockPaths.targetRoot ?? mockPaths.targetDir;
+    },
+  },
+}));
+
+const manifest = {
+  releaseVersion: '1.40.0',
+  packages: [{ name: '@backstage/core-plugin-api', version: '1.10.9' }],
+};
+
+describe('resolveBackstageVersion', () => {
+  let workDir: string;
+  let storeDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'backstage-version-'));
+    storeDir = path.join(workDir, 'manifests');
+    mockPaths.targetDir = workDir;
+    process.env.RHDH_CLI_MANIFEST_CACHE_DIR = storeDir;
+    await fs.writeJson(path.join(workDir, 'backstage.json'), {
+      version: '1.40.0',
+    });
+    clearManifestCache();
+    jest.mocked(getManifestByVersion).mockReset();
+    jest.spyOn(process.stderr, 'write').mockReturnValue(true);
+  });
+
+  afterEach(async () => {
+    delete process.env.RHDH_CLI_MANIFEST_CACHE_DIR;
+    jest.restoreAllMocks();
+    await fs.remove(workDir);
+  });
+
+  it.each([
+    ['backstage:^', '^1.10.9'],
+    ['backstage:~', '~1.10.9'],
+    ['backstage:*', '1.10.9'],
+  ])('resolves %s to %s', async (versionSpec, expected) => {
+    jest.mocked(getManifestByVersion).mockResolvedValue(manifest);
+
+    await expect(
+      resolveBackstageVersion('@backstage/core-plugin-api', versionSpec),
+    ).resolves.toBe(expected);
+    expect(getManifestByVersion).toHaveBeenCalledWith(
+      expect.objectContaining({ version: '1.40.0' }),
+    );
+  });
+
+  it('resolves backstage:<release> with the manifest of that release', async () => {
+    jest.mocked(getManifestByVersion).mockResolvedValue({
+      releaseVersion: '1.38.0',
+      packages: [{ name: '@backstage/core-plugin-api', version: '1.10.7' }],
+    });
+
+    await expect(
+      resolveBackstageVersion('@backstage/core-plugin-api', 'backstage:1.38.0'),
+    ).resolves.toBe('1.10.7');
+    expect(getManifestByVersion).toHaveBeenCalledWith(
+      expect.objectContaining({ version: '1.38.0' }),
+    );
+  });
+
+  it('rejects unsupported selectors', async () => {
+    await expect(
+      resolveBackstageVersion('@backstage/core-plugin-api', 'backstage:>=1'),
+    ).rejects.toThrow(
+      'Unsupported backstage: version selector ">=1" for package "@backstage/core-plugin-api"',
+    );
+  });
+
+  it('stores the fetched manifests', async () => {
+    jest.mocked(getManifestByVersion).mockResolvedValue(manifest);
+
+    await expect(
+      resolveBackstageVersion('@backstage/core-plugin-api', 'backstage:^'),
+    ).resolves.toBe('^1.10.9');
+    await expect(readStoredManifest('1.40.0', storeDir)).resolves.toEqual(
+      manifest,
+    );
+  });
+
+  it('falls back to the stored manifest when fetching fails', async () => {
+    jest
+      .mocked(getManifestByVersion)
+      .mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+    await storeManifest(manifest, storeDir);
+
+    await expect(
+      resolveBackstageVersion('@backstage/core-plugin-api', 'backstage:^'),
+    ).resolves.toBe('^1.10.9');
+  });
+
+  it('fails when the manifest can neither be fetched nor found in the store', async () => {
+    jest
+      .mocked(getManifestByVersion)
+      .mockRejectedValue(new Error('getaddrinfo ENOTFOUND'));
+
+    await expect(
+      resolveBackstageVersion('@backstage/core-plugin-api', 'backstage:^'),
+    ).rejects.toThrow(
+      "Store the manifest for offline usage with 'manifests fetch 1.40.0'",
+    );
+  });
+});
+
+describe('getWorkspaceBackstageVersion', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'backstage-version-'));
+    mockPaths.targetRoot = workDir;
+    mockPaths.targetDir = path.join(workDir, 'plugins', 'example');
+    await fs.outputJson(path.join(mockPaths.targetDir, 'backstage.json'), {
+      version: '1.40.0',
+    });
+  });
+
+  afterEach(async () => {
+    delete mockPaths.targetRoot;
+    await fs.remove(workDir);
+  });
+
+  it('reads the backstage.json file at the root of the workspace only', async () => {
+    await expect(getWorkspaceBackstageVersion()).resolves.toBeUndefined();
+
+    await fs.writeJson(path.join(workDir, 'backstage.json'), {
+      version: '1.42.0',
+    });
+    await expect(getWorkspaceBackstageVersion()).resolves.toBe('1.42.0');
+  });
+});
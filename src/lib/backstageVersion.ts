@@ -25,6 +25,9 @@
  * Environment variables (compatible with the Backstage yarn plugin):
  * - BACKSTAGE_MANIFEST_FILE: Path to a local manifest file (for offline usage)
  * - BACKSTAGE_VERSIONS_BASE_URL: Custom base URL for fetching manifests
+ *
+ * The fetched manifests are kept in the manifest store (see
+ * `./manifestStore`), which is used when fetching fails.
  */
 
 import { BACKSTAGE_JSON } from '@backstage/cli-common';
@@ -32,20 +35,22 @@ import {
   getManifestByVersion,
   ReleaseManifest,
 } from '@backstage/release-manifests';
+import chalk from 'chalk';
 import * as fs from 'fs-extra';
 import * as path from 'path';
 import * as semver from 'semver';
 
+import { readStoredManifest, storeManifest } from './manifestStore';
 import { paths } from './paths';
+import { Task } from './tasks';
 
 const PROTOCOL = 'backstage:';
 
 /**
- * Cache for the release manifest to avoid fetching it multiple times
+ * Cache for the release manifests to avoid fetching them multiple times,
+ * keyed by Backstage version
  */
-let cachedManifest:
-  | { version: string; packages: Map<string, string> }
-  | undefined;
+const cachedManifests = new Map<string, Map<string, string>>();
 
 /**
  * Gets the current Backstage version from backstage.json
@@ -77,17 +82,49 @@ export async function getCurrentBackstageVersion(): Promise<
 }
 
 /**
- * Fetches and caches the Backstage release manifest for the given version.
+ * Gets the Backstage version from the backstage.json file at the root of the
+ * workspace, which `backstage.supported-versions` is checked against
+ */
+export async function getWorkspaceBackstageVersion(): Promise<
+  string | undefined
+> {
+  const backstageJsonPath = path.join(paths.targetRoot, BACKSTAGE_JSON);
+  if (!(await fs.pathExists(backstageJsonPath))) {
+    return undefined;
+  }
+  return (await fs.readJson(backstageJsonPath)).version;
+}
+
+/**
+ * Fetches the Backstage release manifest for the given version from
+ * BACKSTAGE_VERSIONS_BASE_URL, or else from https://versions.backstage.io
+ */
+export async function fetchBackstageManifest(
+  backstageVersion: string,
+): Promise<ReleaseManifest> {
+  return getManifestByVersion({
+    version: backstageVersion,
+    // Support BACKSTAGE_VERSIONS_BASE_URL for custom manifest server (same as yarn plugin)
+    versionsBaseUrl: process.env.BACKSTAGE_VERSIONS_BASE_URL,
+  });
+}
+
+/**
+ * Fetches and caches the Backstage release manifest for the given version,
+ * falling back to the manifest store when fetching fails.
+ *
+ * @returns the versions of the packages of the release, by package name
  *
  * Supports the same environment variables as the Backstage yarn plugin:
  * - BACKSTAGE_MANIFEST_FILE: Read manifest from a local file instead of fetching
  * - BACKSTAGE_VERSIONS_BASE_URL: Custom base URL for fetching manifests
  */
-async function getBackstageManifest(
+export async function getBackstageManifest(
   backstageVersion: string,
 ): Promise<Map<string, string>> {
-  if (cachedManifest && cachedManifest.version === backstageVersion) {
-    return cachedManifest.packages;
+  const cachedPackages = cachedManifests.get(backstageVersion);
+  if (cachedPackages) {
+    return cachedPackages;
   }
 
   let manifest: ReleaseManifest;
@@ -104,23 +141,34 @@ async function getBackstageManifest(
     }
   } else {
     try {
-      manifest = await getManifestByVersion({
-        version: backstageVersion,
-        // Support BACKSTAGE_VERSIONS_BASE_URL for custom manifest server (same as yarn plugin)
-        versionsBaseUrl: process.env.BACKSTAGE_VERSIONS_BASE_URL,
+      manifest = await fetchBackstageManifest(backstageVersion);
+      await storeManifest(manifest).catch(() => {
+        // The store is only a fallback, for example when the home directory is read-only
       });
     } catch (error) {
       const baseUrl =
         process.env.BACKSTAGE_VERSIONS_BASE_URL ||
         'https://versions.backstage.io';
-      throw new Error(
-        `Failed to fetch Backstage release manifest for version ${backstageVersion} from ${baseUrl}: ${error}\n\n` +
-          `To resolve this issue, you can:\n` +
-          `  - Check your network connection\n` +
-          `  - Set BACKSTAGE_VERSIONS_BASE_URL to use a different manifest server\n` +
-          `  - Set BACKSTAGE_MANIFEST_FILE to use a local manifest file for offline usage\n` +
-          `    (Download from: ${baseUrl}/v1/releases/${backstageVersion}/manifest.json)`,
+      const storedManifest = await readStoredManifest(backstageVersion).catch(
+        () => undefined,
       );
+      if (!storedManifest) {
+        throw new Error(
+          `Failed to fetch Backstage release manifest for version ${backstageVersion} from ${baseUrl}: ${error}\n\n` +
+            `To resolve this issue, you can:\n` +
+            `  - Check your network connection\n` +
+            `  - Set BACKSTAGE_VERSIONS_BASE_URL to use a different manifest server\n` +
+            `  - Store the manifest for offline usage with 'manifests fetch ${backstageVersion}' or 'manifests import <file>'\n` +
+            `  - Set BACKSTAGE_MANIFEST_FILE to use a local manifest file for offline usage\n` +
+            `    (Download from: ${baseUrl}/v1/releases/${backstageVersion}/manifest.json)`,
+        );
+      }
+      Task.log(
+        chalk.yellow(
+          `Failed to fetch Backstage release manifest for version ${backstageVersion} from ${baseUrl}, using the stored manifest: ${error}`,
+        ),
+      );
+      manifest = storedManifest;
     }
   }
 
@@ -129,7 +177,7 @@ async function getBackstageManifest(
     packages.set(pkg.name, pkg.version);
   }
 
-  cachedManifest = { version: backstageVersion, packages };
+  cachedManifests.set(backstageVersion, packages);
   return packages;
 }
 
@@ -141,7 +189,40 @@ export function isBackstageVersionSpec(versionSpec: string): boolean {
 }
 
 /**
- * Resolves a backstage:^ version spec to a concrete version.
+ * Parses the selector of a backstage: version spec, with the selectors of the
+ * Backstage yarn plugin:
+ * - `backstage:^` and `backstage:~`: a caret or tilde range on the version of
+ *   the package in the Backstage release of backstage.json
+ * - `backstage:*`: the exact version of the package in that release
+ * - `backstage:<release>`, for example `backstage:1.40.0` as written in
+ *   lockfiles: the exact version of the package in the given release
+ *
+ * @returns the range prefix of the resolved version, and the Backstage
+ * release if pinned by the spec
+ */
+export function parseBackstageVersionSpec(
+  packageName: string,
+  versionSpec: string,
+): { prefix: '^' | '~' | ''; release?: string } {
+  const selector = versionSpec.slice(PROTOCOL.length);
+  if (selector === '^' || selector === '~') {
+    return { prefix: selector };
+  }
+  if (selector === '*') {
+    return { prefix: '' };
+  }
+  if (semver.valid(selector)) {
+    return { prefix: '', release: selector };
+  }
+  throw new Error(
+    `Unsupported backstage: version selector "${selector}" for package "${packageName}". ` +
+      `Supported selectors are "backstage:^", "backstage:~", "backstage:*" and "backstage:<release>", for example "backstage:1.40.0".`,
+  );
+}
+
+/**
+ * Resolves a backstage: version spec to a concrete version, see
+ * {@link parseBackstageVersionSpec} for the supported selectors.
  *
  * @param packageName - The name of the package to resolve
  * @param versionSpec - The version spec (e.g., "backstage:^")
@@ -155,14 +236,11 @@ export async function resolveBackstageVersion(
     return undefined;
   }
 
-  const selector = versionSpec.slice(PROTOCOL.length);
-  if (selector !== '^') {
-    throw new Error(
-      `Unsupported backstage: version selector "${selector}" for package "${packageName}". Only "backstage:^" is supported.`,
-    );
-  }
-
-  const backstageVersion = await getCurrentBackstageVersion();
+  const { prefix, release } = parseBackstageVersionSpec(
+    packageName,
+    versionSpec,
+  );
+  const backstageVersion = release ?? (await getCurrentBackstageVersion());
   if (!backstageVersion) {
     throw new Error(
       `Cannot resolve "${versionSpec}" for package "${packageName}": ` +
@@ -182,12 +260,34 @@ export async function resolveBackstageVersion(
     );
   }
 
-  return `^${resolvedVersion}`;
+  return `${prefix}${resolvedVersion}`;
+}
+
+/**
+ * Checks the `backstage.supported-versions` field of a plugin package against
+ * the Backstage version of the workspace.
+ *
+ * A single version supports the patch releases of its minor release. When it
+ * doesn't match, it can be overridden by the workspace version at export time,
+ * whereas an incompatible version range is an error.
+ */
+export function checkSupportedVersions(
+  supportedVersions: string,
+  backstageVersion: string,
+): 'compatible' | 'overridable' | 'incompatible' {
+  const singleVersion = semver.valid(supportedVersions, true);
+  const supportedVersionsRange = singleVersion
+    ? `~${supportedVersions}`
+    : supportedVersions;
+  if (semver.subset(`~${backstageVersion}`, supportedVersionsRange)) {
+    return 'compatible';
+  }
+  return singleVersion ? 'overridable' : 'incompatible';
 }
 
 /**
- * Clears the cached manifest (useful for testing)
+ * Clears the cached manifests (useful for testing)
  */
 export function clearManifestCache(): void {
-  cachedManifest = undefined;
+  cachedManifests.clear();
 }
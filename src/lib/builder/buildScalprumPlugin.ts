@@ -1,6 +1,10 @@
 import { PluginBuildMetadata } from '@openshift/dynamic-plugin-sdk-webpack';
 
+import { join } from 'path';
+
 import { buildScalprumBundle } from '../bundler/bundlePlugin';
+import { SharedModules } from '../bundler/sharedModules';
+import { SingletonCheckMode } from '../bundler/singletonCheck';
 import { getEnvironmentParallelism } from '../parallel';
 
 interface BuildScalprumPluginOptions {
@@ -9,15 +13,29 @@ interface BuildScalprumPluginOptions {
   configPaths: string[];
   pluginMetadata: PluginBuildMetadata;
   resolvedScalprumDistPath: string;
+  sharedModules: SharedModules;
+  singletonCheck?: SingletonCheckMode;
 }
 
 export async function buildScalprumPlugin(options: BuildScalprumPluginOptions) {
-  const { targetDir, pluginMetadata, resolvedScalprumDistPath } = options;
+  const {
+    targetDir,
+    pluginMetadata,
+    resolvedScalprumDistPath,
+    sharedModules,
+    singletonCheck,
+    writeStats,
+  } = options;
   await buildScalprumBundle({
     targetDir,
     entry: 'src/index',
     parallelism: getEnvironmentParallelism(),
     pluginMetadata,
     resolvedScalprumDistPath,
+    sharedModules,
+    singletonCheck,
+    resolvedStatsPath: writeStats
+      ? join(targetDir, 'dist-scalprum-stats')
+      : undefined,
   });
 }
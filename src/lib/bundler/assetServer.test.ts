@@ -0,0 +1,98 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import os from 'node:os';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+
+import { AssetServer, serveAssets } from './assetServer';
+
+describe('serveAssets', () => {
+  let workDir: string;
+  let server: AssetServer;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'asset-server-test-'));
+    await fs.outputJson(path.join(workDir, 'dist', 'plugin-manifest.json'), {
+      name: 'backstage.plugin-example',
+    });
+    await fs.outputFile(path.join(workDir, 'secret.txt'), 'secret');
+    server = await serveAssets({ dir: path.join(workDir, 'dist'), port: 0 });
+  });
+
+  afterEach(async () => {
+    jest.restoreAllMocks();
+    await server.close();
+    await fs.remove(workDir);
+  });
+
+  it('serves files with CORS headers and without caching', async () => {
+    const response = await fetch(`${server.url}/plugin-manifest.json`);
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('access-control-allow-origin')).toBe('*');
+    expect(response.headers.get('cache-control')).toBe('no-store');
+    expect(response.headers.get('content-type')).toBe(
+      'application/json; charset=utf-8',
+    );
+    await expect(response.json()).resolves.toEqual({
+      name: 'backstage.plugin-example',
+    });
+  });
+
+  it('answers CORS preflight requests', async () => {
+    const response = await fetch(`${server.url}/plugin-manifest.json`, {
+      method: 'OPTIONS',
+    });
+
+    expect(response.status).toBe(204);
+    expect(response.headers.get('access-control-allow-methods')).toBe(
+      'GET, HEAD, OPTIONS',
+    );
+  });
+
+  it.each([
+    ['/missing.js', 404],
+    ['/', 404],
+    ['/..%2fsecret.txt', 403],
+  ])('rejects %s with HTTP %d', async (pathname, status) => {
+    const response = await fetch(`${server.url}${pathname}`);
+
+    expect(response.status).toBe(status);
+  });
+
+  it('survives files removed by a rebuild while they are served', async () => {
+    jest.spyOn(fs, 'createReadStream').mockImplementationOnce(() => {
+      const stream = new Readable({ read() {} });
+      process.nextTick(() =>
+        stream.destroy(
+          Object.assign(new Error('ENOENT: no such file or directory'), {
+            code: 'ENOENT',
+          }),
+        ),
+      );
+      return stream as any;
+    });
+
+    const response = await fetch(`${server.url}/plugin-manifest.json`);
+    expect(response.status).toBe(404);
+
+    const nextResponse = await fetch(`${server.url}/plugin-manifest.json`);
+    expect(nextResponse.status).toBe(200);
+  });
+});
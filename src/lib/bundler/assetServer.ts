@@ -0,0 +1,140 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+
+const CONTENT_TYPES: Record<string, string> = {
+  '.js': 'application/javascript; charset=utf-8',
+  '.json': 'application/json; charset=utf-8',
+  '.map': 'application/json; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.html': 'text/html; charset=utf-8',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.woff': 'font/woff',
+  '.woff2': 'font/woff2',
+};
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, HEAD, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+};
+
+export type AssetServer = {
+  url: string;
+  close(): Promise<void>;
+};
+
+/**
+ * Serves the files of a directory over HTTP, with CORS headers so that they
+ * can be loaded by an app running on another origin, and without caching so
+ * that rebuilt files are picked up on reload.
+ */
+export async function serveAssets(options: {
+  dir: string;
+  port: number;
+  host?: string;
+}): Promise<AssetServer> {
+  const { dir, port, host = 'localhost' } = options;
+  const root = path.resolve(dir);
+
+  const server = http.createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      res.end();
+      return;
+    }
+    if (req.method !== 'GET' && req.method !== 'HEAD') {
+      res.writeHead(405, { ...CORS_HEADERS, Allow: 'GET, HEAD, OPTIONS' });
+      res.end();
+      return;
+    }
+
+    let pathname: string;
+    try {
+      pathname = decodeURIComponent(
+        new URL(req.url ?? '/', 'http://localhost').pathname,
+      );
+    } catch {
+      res.writeHead(400, CORS_HEADERS);
+      res.end();
+      return;
+    }
+    const file = path.join(root, pathname);
+    if (file !== root && !file.startsWith(`${root}${path.sep}`)) {
+      res.writeHead(403, CORS_HEADERS);
+      res.end();
+      return;
+    }
+
+    const stat = await fs.stat(file).catch(() => undefined);
+    if (!stat?.isFile()) {
+      res.writeHead(404, CORS_HEADERS);
+      res.end();
+      return;
+    }
+    const headers = {
+      ...CORS_HEADERS,
+      'Cache-Control': 'no-store',
+      'Content-Type':
+        CONTENT_TYPES[path.extname(file)] ?? 'application/octet-stream',
+      'Content-Length': stat.size,
+    };
+    if (req.method === 'HEAD') {
+      res.writeHead(200, headers);
+      res.end();
+      return;
+    }
+    // A rebuild may delete or rewrite the file at any time
+    const stream = fs.createReadStream(file);
+    stream.once('error', () => {
+      if (res.headersSent) {
+        res.destroy();
+      } else {
+        res.writeHead(404, CORS_HEADERS);
+        res.end();
+      }
+    });
+    stream.once('open', () => {
+      res.writeHead(200, headers);
+      stream.pipe(res);
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  return {
+    url: `http://${host}:${address.port}`,
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        server.close(err => (err ? reject(err) : resolve())),
+      ),
+  };
+}
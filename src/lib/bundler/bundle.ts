@@ -30,6 +30,7 @@ import { resolve as resolvePath } from 'path';
 import { createConfig, resolveBaseUrl } from './config';
 import { createDetectedModulesEntryPoint } from './packageDetection';
 import { resolveBundlingPaths } from './paths';
+import { RHDH_SHARED_MODULES } from './sharedModules';
 import { BuildOptions } from './types';
 
 // TODO(Rugvip): Limits from CRA, we might want to tweak these though.
@@ -57,6 +58,7 @@ export async function buildBundle(options: BuildOptions) {
     baseUrl: resolveBaseUrl(options.frontendConfig),
     getFrontendAppConfigs: () => options.frontendAppConfigs,
     additionalEntryPoints: detectedModulesEntryPoint,
+    sharedModules: RHDH_SHARED_MODULES,
   });
 
   const isCi = yn(process.env.CI, { default: false });
@@ -9,8 +9,20 @@ import fs from 'fs-extra';
 import webpack from 'webpack';
 import yn from 'yn';
 
+import { resolve as resolvePath } from 'path';
+
+import {
+  formatCompositionText,
+  groupModulesByPackage,
+  renderCompositionHtml,
+} from './bundleReport';
 import { BundlingPathsOptions, resolveBundlingPaths } from './paths';
 import { createScalprumConfig } from './scalprumConfig';
+import {
+  checkBundledSingletons,
+  formatBundledSingletons,
+  SingletonCheckMode,
+} from './singletonCheck';
 import { DynamicPluginOptions } from './types';
 
 // TODO(Rugvip): Limits from CRA, we might want to tweak these though.
@@ -25,8 +37,12 @@ export async function buildScalprumBundle(
   options: BundlingPathsOptions &
     DynamicPluginOptions & {
       resolvedScalprumDistPath: string;
+      singletonCheck?: SingletonCheckMode;
+      /** Directory of the bundle stats and composition report, if written */
+      resolvedStatsPath?: string;
     },
 ) {
+  const { singletonCheck = 'fail' } = options;
   const paths = resolveBundlingPaths(options);
   const config = await createScalprumConfig(
     {
@@ -63,6 +79,14 @@ export async function buildScalprumBundle(
     throw new Error('No stats returned');
   }
 
+  if (options.resolvedStatsPath) {
+    await writeStatsAndReport(
+      stats,
+      options.resolvedStatsPath,
+      options.pluginMetadata.name,
+    );
+  }
+
   printFileSizesAfterBuild(
     stats,
     previousFileSizes,
@@ -70,6 +94,61 @@ export async function buildScalprumBundle(
     WARN_AFTER_BUNDLE_GZIP_SIZE,
     WARN_AFTER_CHUNK_GZIP_SIZE,
   );
+
+  if (singletonCheck !== 'off') {
+    const bundledSingletons = await checkBundledSingletons(
+      stats,
+      options.sharedModules,
+      paths.targetPath,
+    );
+    if (bundledSingletons.length > 0) {
+      const message = formatBundledSingletons(bundledSingletons);
+      if (singletonCheck === 'fail') {
+        throw new Error(message);
+      }
+      console.log(chalk.yellow(message));
+    }
+  }
+}
+
+/**
+ * Writes the bundle stats, and the composition of the bundle grouped by
+ * package as a text and an HTML treemap report.
+ */
+async function writeStatsAndReport(
+  stats: webpack.Stats,
+  resolvedStatsPath: string,
+  pluginName: string,
+) {
+  await fs.emptyDir(resolvedStatsPath);
+  const statsJson = stats.toJson();
+  // No @types/bfj
+  await require('bfj').write(
+    resolvePath(resolvedStatsPath, 'bundle-stats.json'),
+    statsJson,
+  );
+
+  const composition = groupModulesByPackage(statsJson.modules ?? []);
+  const compositionText = formatCompositionText(composition);
+  await fs.writeFile(
+    resolvePath(resolvedStatsPath, 'bundle-report.txt'),
+    compositionText,
+  );
+  await fs.writeFile(
+    resolvePath(resolvedStatsPath, 'bundle-report.html'),
+    renderCompositionHtml(composition, `${pluginName} bundle composition`),
+  );
+
+  console.log(
+    [
+      ...compositionText.trim().split('\n').slice(0, 12),
+      ...(composition.length > 10 ? ['...'] : []),
+      '',
+      `Bundle stats and composition report written to ${chalk.cyan(
+        resolvedStatsPath,
+      )}`,
+    ].join('\n'),
+  );
 }
 
 async function build(config: webpack.Configuration, isCi: boolean) {
@@ -131,3 +210,79 @@ async function build(config: webpack.Configuration, isCi: boolean) {
 
   return { stats };
 }
+
+/**
+ * Builds the dynamic frontend plugin assets in development mode, then rebuilds
+ * them incrementally whenever a source file changes, until the returned
+ * watcher is closed.
+ */
+export async function watchScalprumBundle(
+  options: BundlingPathsOptions &
+    DynamicPluginOptions & {
+      resolvedScalprumDistPath: string;
+    },
+): Promise<{ close(): Promise<void> }> {
+  const paths = resolveBundlingPaths(options);
+  const config = await createScalprumConfig(
+    {
+      targetScalprumDist: options.resolvedScalprumDistPath,
+      ...paths,
+    },
+    {
+      ...options,
+      isDev: true,
+    },
+  );
+
+  const compiler = webpack(config);
+  let firstBuild = true;
+  const watching = await new Promise<webpack.Watching | undefined>(resolve => {
+    const startedWatching = compiler.watch({}, (err, stats) => {
+      if (err) {
+        console.log(chalk.red(`Failed to compile: ${err.message}`));
+      } else if (stats) {
+        const serializedStats = stats.toJson({
+          all: false,
+          warnings: true,
+          errors: true,
+        });
+        const { errors } = formatWebpackMessages({
+          errors: serializedStats.errors,
+          warnings: serializedStats.warnings,
+        });
+        if (errors.length) {
+          console.log(
+            chalk.red(
+              applyContextToError(
+                errors[0],
+                serializedStats.errors?.[0]?.moduleName ?? '',
+              ),
+            ),
+          );
+        } else {
+          const duration = (stats.endTime ?? 0) - (stats.startTime ?? 0);
+          console.log(
+            chalk.green(
+              `Dynamic frontend plugin assets ${
+                firstBuild ? 'built' : 'rebuilt'
+              } in ${duration}ms`,
+            ),
+          );
+        }
+      }
+      if (firstBuild) {
+        firstBuild = false;
+        resolve(startedWatching);
+      }
+    });
+  });
+
+  return {
+    close: () =>
+      new Promise<void>((resolve, reject) =>
+        watching
+          ? watching.close(err => (err ? reject(err) : resolve()))
+          : resolve(),
+      ),
+  };
+}
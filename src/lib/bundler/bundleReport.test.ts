@@ -0,0 +1,120 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  formatCompositionText,
+  GENERATED_MODULES,
+  groupModulesByPackage,
+  packageOfModule,
+  PLUGIN_SOURCES,
+  renderCompositionHtml,
+} from './bundleReport';
+
+describe('packageOfModule', () => {
+  it('finds the package of a module', () => {
+    expect(packageOfModule('/plugin/node_modules/lodash/get.js')).toBe(
+      'lodash',
+    );
+    expect(
+      packageOfModule(
+        '/plugin/node_modules/@mui/material/node_modules/@mui/utils/index.js',
+      ),
+    ).toBe('@mui/utils');
+    expect(packageOfModule('/plugin/src/index.ts')).toBe(PLUGIN_SOURCES);
+    expect(packageOfModule(null)).toBe(GENERATED_MODULES);
+  });
+});
+
+describe('groupModulesByPackage', () => {
+  const composition = groupModulesByPackage([
+    {
+      name: './src/index.ts + 2 modules',
+      size: 1500,
+      modules: [
+        {
+          name: './src/index.ts',
+          nameForCondition: '/plugin/src/index.ts',
+          size: 500,
+        },
+        {
+          name: './node_modules/lodash/get.js',
+          nameForCondition: '/plugin/node_modules/lodash/get.js',
+          size: 1000,
+        },
+      ],
+    },
+    {
+      name: './node_modules/lodash/set.js',
+      nameForCondition: '/plugin/node_modules/lodash/set.js',
+      size: 2000,
+    },
+    {
+      name: 'webpack/runtime/consumes',
+      size: 100,
+    },
+    {
+      name: './node_modules/lodash/unused.js',
+      nameForCondition: '/plugin/node_modules/lodash/unused.js',
+      size: 5000,
+      orphan: true,
+    },
+  ]);
+
+  it('groups the bundled modules by package, largest first', () => {
+    expect(composition).toEqual([
+      {
+        name: 'lodash',
+        size: 3000,
+        modules: [
+          { name: './node_modules/lodash/set.js', size: 2000 },
+          { name: './node_modules/lodash/get.js', size: 1000 },
+        ],
+      },
+      {
+        name: PLUGIN_SOURCES,
+        size: 500,
+        modules: [{ name: './src/index.ts', size: 500 }],
+      },
+      {
+        name: GENERATED_MODULES,
+        size: 100,
+        modules: [{ name: 'webpack/runtime/consumes', size: 100 }],
+      },
+    ]);
+  });
+
+  it('formats the composition as text', () => {
+    expect(formatCompositionText(composition)).toBe(
+      [
+        'Bundle composition, sizes before minification: 3.5 KiB',
+        '',
+        '    2.9 KiB   83.3%  lodash (2 modules)',
+        '      500 B   13.9%  (plugin sources) (1 module)',
+        '      100 B    2.8%  (generated) (1 module)',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('renders the composition as an HTML treemap', () => {
+    const html = renderCompositionHtml(composition, 'example <plugin>');
+    expect(html).toContain('<title>example &lt;plugin&gt;</title>');
+    expect(html).toContain(
+      '<div class="package" style="left:0.000%;top:0.000%;width:83.333%;height:100.000%" title="lodash: 2.9 KiB (83.3%)">lodash: 2.9 KiB (83.3%)</div>',
+    );
+    expect(html.match(/class="module"/g)).toHaveLength(4);
+  });
+});
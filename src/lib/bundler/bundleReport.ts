@@ -0,0 +1,243 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { formatSize } from './sizeBudgets';
+
+/** The fields of the webpack stats modules used by the report */
+type StatsModule = {
+  name?: string;
+  nameForCondition?: string | null;
+  size?: number;
+  orphan?: boolean;
+  modules?: StatsModule[];
+};
+
+export type ModuleSize = {
+  name: string;
+  size: number;
+};
+
+/** The modules of a package bundled in a plugin, largest first */
+export type PackageComposition = {
+  name: string;
+  size: number;
+  modules: ModuleSize[];
+};
+
+/** Group of the plugin's own modules */
+export const PLUGIN_SOURCES = '(plugin sources)';
+/** Group of the modules generated by webpack and module federation */
+export const GENERATED_MODULES = '(generated)';
+
+/**
+ * Returns the package of a module, from the last `node_modules` folder of
+ * its path.
+ */
+export function packageOfModule(resource: string | null | undefined): string {
+  if (!resource) {
+    return GENERATED_MODULES;
+  }
+  const segments = resource.split(/[\\/]/);
+  const index = segments.lastIndexOf('node_modules');
+  if (index < 0 || index === segments.length - 1) {
+    return PLUGIN_SOURCES;
+  }
+  const name = segments[index + 1];
+  return name.startsWith('@') && segments[index + 2]
+    ? `${name}/${segments[index + 2]}`
+    : name;
+}
+
+function flattenModules(modules: StatsModule[]): StatsModule[] {
+  return modules.flatMap(module =>
+    // Concatenated modules are counted through the modules they contain
+    module.modules?.length ? flattenModules(module.modules) : [module],
+  );
+}
+
+/**
+ * Groups the modules of the webpack stats by package, with their sizes
+ * before minification.
+ */
+export function groupModulesByPackage(
+  modules: StatsModule[],
+): PackageComposition[] {
+  const packages = new Map<string, PackageComposition>();
+  const bundledModules = flattenModules(modules.filter(m => !m.orphan));
+  for (const module of bundledModules) {
+    const name = packageOfModule(module.nameForCondition);
+    const composition = packages.get(name) ?? { name, size: 0, modules: [] };
+    composition.size += module.size ?? 0;
+    composition.modules.push({
+      name: module.name ?? '',
+      size: module.size ?? 0,
+    });
+    packages.set(name, composition);
+  }
+  const byDescendingSize = (a: { size: number }, b: { size: number }) =>
+    b.size - a.size;
+  return [...packages.values()]
+    .map(composition => ({
+      ...composition,
+      modules: composition.modules.sort(byDescendingSize),
+    }))
+    .sort(byDescendingSize);
+}
+
+function percentage(size: number, total: number): string {
+  return `${total > 0 ? ((size / total) * 100).toFixed(1) : '0.0'}%`;
+}
+
+/**
+ * Formats the composition of a bundle as a text table, largest packages
+ * first.
+ */
+export function formatCompositionText(
+  composition: PackageComposition[],
+): string {
+  const total = composition.reduce((sum, pkg) => sum + pkg.size, 0);
+  return [
+    `Bundle composition, sizes before minification: ${formatSize(total)}`,
+    '',
+    ...composition.map(
+      pkg =>
+        `${formatSize(pkg.size).padStart(11)}  ${percentage(
+          pkg.size,
+          total,
+        ).padStart(6)}  ${pkg.name} (${pkg.modules.length} module${
+          pkg.modules.length === 1 ? '' : 's'
+        })`,
+    ),
+    '',
+  ].join('\n');
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+type Rectangle = { x: number; y: number; width: number; height: number };
+
+/**
+ * Splits a rectangle into slices proportional to the given sizes, along its
+ * longest side.
+ */
+function slice(rectangle: Rectangle, sizes: number[]): Rectangle[] {
+  const total = sizes.reduce((sum, size) => sum + size, 0);
+  const horizontal = rectangle.width >= rectangle.height;
+  let offset = 0;
+  return sizes.map(size => {
+    const ratio = total > 0 ? size / total : 0;
+    const slicedRectangle = horizontal
+      ? {
+          x: rectangle.x + offset * rectangle.width,
+          y: rectangle.y,
+          width: ratio * rectangle.width,
+          height: rectangle.height,
+        }
+      : {
+          x: rectangle.x,
+          y: rectangle.y + offset * rectangle.height,
+          width: rectangle.width,
+          height: ratio * rectangle.height,
+        };
+    offset += ratio;
+    return slicedRectangle;
+  });
+}
+
+function box(
+  rectangle: Rectangle,
+  className: string,
+  title: string,
+  label: string,
+): string {
+  const style = [
+    `left:${rectangle.x.toFixed(3)}%`,
+    `top:${rectangle.y.toFixed(3)}%`,
+    `width:${rectangle.width.toFixed(3)}%`,
+    `height:${rectangle.height.toFixed(3)}%`,
+  ].join(';');
+  return `<div class="${className}" style="${style}" title="${escapeHtml(
+    title,
+  )}">${escapeHtml(label)}</div>`;
+}
+
+/**
+ * Renders the composition of a bundle as a self-contained HTML treemap, with
+ * a box per package containing a box per module.
+ */
+export function renderCompositionHtml(
+  composition: PackageComposition[],
+  title: string,
+): string {
+  const total = composition.reduce((sum, pkg) => sum + pkg.size, 0);
+  const packageRectangles = slice(
+    { x: 0, y: 0, width: 100, height: 100 },
+    composition.map(pkg => pkg.size),
+  );
+  const boxes = composition.flatMap((pkg, i) => {
+    const packageTitle = `${pkg.name}: ${formatSize(pkg.size)} (${percentage(
+      pkg.size,
+      total,
+    )})`;
+    const moduleRectangles = slice(
+      packageRectangles[i],
+      pkg.modules.map(module => module.size),
+    );
+    return [
+      box(packageRectangles[i], 'package', packageTitle, packageTitle),
+      ...pkg.modules.map((module, j) =>
+        box(
+          moduleRectangles[j],
+          'module',
+          `${packageTitle}\n${module.name}: ${formatSize(module.size)}`,
+          '',
+        ),
+      ),
+    ];
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { margin: 0; font-family: sans-serif; }
+h1 { font-size: 16px; margin: 8px; }
+#treemap { position: relative; height: calc(100vh - 48px); margin: 0 8px 8px; }
+#treemap div { position: absolute; box-sizing: border-box; overflow: hidden; }
+.package { border: 2px solid #fff; background: #b3d4fc; font-size: 12px; padding: 2px; }
+.module { border: 1px solid rgba(255, 255, 255, 0.6); }
+.module:hover { background: rgba(0, 0, 0, 0.15); }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}: ${formatSize(
+    total,
+  )} before minification, hover the modules for details</h1>
+<div id="treemap">
+${boxes.join('\n')}
+</div>
+</body>
+</html>
+`;
+}
@@ -36,18 +36,11 @@ import { runPlain } from '../run';
 import { LinkedPackageResolvePlugin } from './LinkedPackageResolvePlugin';
 import { optimization } from './optimization';
 import { BundlingPaths } from './paths';
-import { sharedModules } from './scalprumConfig';
 import { transforms } from './transforms';
 import { BundlingOptions } from './types';
 
 const { ModuleFederationPlugin } = container;
 
-const scalprumPlugin = new ModuleFederationPlugin({
-  name: 'backstageHost',
-  filename: 'backstageHost.[fullhash].js',
-  shared: [sharedModules],
-});
-
 const BUILD_CACHE_ENV_VAR = 'BACKSTAGE_CLI_EXPERIMENTAL_BUILD_CACHE';
 
 export function resolveBaseUrl(config: Config): URL {
@@ -153,7 +146,13 @@ export async function createConfig(
     }),
   );
 
-  plugins.push(scalprumPlugin);
+  plugins.push(
+    new ModuleFederationPlugin({
+      name: 'backstageHost',
+      filename: 'backstageHost.[fullhash].js',
+      shared: [options.sharedModules],
+    }),
+  );
 
   // These files are required by the transpiled code when using React Refresh.
   // They need to be excluded to the module scope plugin which ensures that files
@@ -10,96 +10,11 @@ import { BundlingPaths } from './paths';
 import { transforms } from './transforms';
 import { DynamicPluginOptions } from './types';
 
-/**
- * TODO: Create a config API to configure and optimize dependency sharing
- * https://medium.com/@marvusm.mmi/webpack-module-federation-think-twice-before-sharing-a-dependency-18b3b0e352cb
- */
-export const sharedModules = {
-  /**
-   * Mandatory singleton packages for sharing
-   */
-  react: {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  'react-dom': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  'react-router-dom': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  'react-router': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  '@backstage/version-bridge': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  '@backstage/core-app-api': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  '@backstage/core-plugin-api': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  '@backstage/frontend-plugin-api': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  '@scalprum/react-core': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  '@openshift/dynamic-plugin-sdk': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  /**
-   * The following two packages are required to be shared as singletons to enable UI theming
-   */
-  '@material-ui/core/styles': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  '@material-ui/styles': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  '@mui/material': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  '@mui/system': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  '@mui/private-theming': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  '@mui/styled-engine': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  '@emotion/cache': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-  '@emotion/react': {
-    singleton: true,
-    requiredVersion: '*',
-  },
-};
-
 export async function createScalprumConfig(
   paths: BundlingPaths & { targetScalprumDist: string },
   options: DynamicPluginOptions,
 ): Promise<webpack.Configuration> {
-  const { checksEnabled, isDev } = options;
+  const { checksEnabled, isDev, sharedModules } = options;
 
   const { plugins, loaders } = transforms({
     ...options,
@@ -35,6 +35,7 @@ import { Lockfile } from '../versioning';
 import { createConfig, resolveBaseUrl } from './config';
 import { createDetectedModulesEntryPoint } from './packageDetection';
 import { resolveBundlingPaths } from './paths';
+import { RHDH_SHARED_MODULES } from './sharedModules';
 import { ServeOptions } from './types';
 
 export async function serveBundle(options: ServeOptions) {
@@ -139,6 +140,7 @@ export async function serveBundle(options: ServeOptions) {
       return latestFrontendAppConfigs;
     },
     additionalEntryPoints: detectedModulesEntryPoint,
+    sharedModules: RHDH_SHARED_MODULES,
   });
 
   const compiler = webpack(config);
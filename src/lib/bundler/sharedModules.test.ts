@@ -0,0 +1,46 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { applySharedModulesOverrides } from './sharedModules';
+
+describe('applySharedModulesOverrides', () => {
+  const sharedModules = {
+    react: { singleton: true, requiredVersion: '*' },
+    '@mui/material': { singleton: true, requiredVersion: '*' },
+  };
+
+  it('adds and excludes modules', () => {
+    expect(
+      applySharedModulesOverrides(sharedModules, {
+        '@mui/material': false,
+        'my-lib': { singleton: true, requiredVersion: '^1.0.0' },
+      }),
+    ).toEqual({
+      react: { singleton: true, requiredVersion: '*' },
+      'my-lib': { singleton: true, requiredVersion: '^1.0.0' },
+    });
+    expect(sharedModules).toHaveProperty('@mui/material');
+  });
+
+  it('rejects invalid overrides', () => {
+    expect(() =>
+      applySharedModulesOverrides(sharedModules, ['react'] as any),
+    ).toThrow(/should map module names/);
+    expect(() =>
+      applySharedModulesOverrides(sharedModules, { react: true } as any),
+    ).toThrow(/Invalid sharing configuration for module 'react'/);
+  });
+});
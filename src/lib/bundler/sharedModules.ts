@@ -0,0 +1,107 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Module federation sharing configuration of a module, as accepted by the
+ * `shared` option of the webpack `ModuleFederationPlugin`.
+ */
+export type SharedModuleConfig = {
+  singleton?: boolean;
+  requiredVersion?: string | false;
+  strictVersion?: boolean;
+  eager?: boolean;
+  import?: string | false;
+};
+
+export type SharedModules = Record<string, SharedModuleConfig>;
+
+/**
+ * Additions and exclusions of shared modules for a plugin, read from the
+ * `sharedModules` field of its scalprum config: a module mapped to `false` is
+ * not shared, other modules are shared with the given configuration.
+ */
+export type SharedModulesOverrides = Record<string, SharedModuleConfig | false>;
+
+const singleton: SharedModuleConfig = {
+  singleton: true,
+  requiredVersion: '*',
+};
+
+/**
+ * The modules shared by the RHDH app with the dynamic frontend plugins. The
+ * supported RHDH releases all share these modules: update them when a new
+ * RHDH release shares other modules.
+ */
+export const RHDH_SHARED_MODULES: SharedModules = {
+  /**
+   * Mandatory singleton packages for sharing
+   */
+  react: singleton,
+  'react-dom': singleton,
+  'react-router-dom': singleton,
+  'react-router': singleton,
+  '@backstage/version-bridge': singleton,
+  '@backstage/core-app-api': singleton,
+  '@backstage/core-plugin-api': singleton,
+  '@backstage/frontend-plugin-api': singleton,
+  '@scalprum/react-core': singleton,
+  '@openshift/dynamic-plugin-sdk': singleton,
+  /**
+   * The following two packages are required to be shared as singletons to enable UI theming
+   */
+  '@material-ui/core/styles': singleton,
+  '@material-ui/styles': singleton,
+  '@mui/material': singleton,
+  '@mui/system': singleton,
+  '@mui/private-theming': singleton,
+  '@mui/styled-engine': singleton,
+  '@emotion/cache': singleton,
+  '@emotion/react': singleton,
+};
+
+/**
+ * Applies the additions and exclusions of a plugin to the shared modules.
+ */
+export function applySharedModulesOverrides(
+  sharedModules: SharedModules,
+  overrides: SharedModulesOverrides | undefined,
+): SharedModules {
+  if (overrides === undefined) {
+    return sharedModules;
+  }
+  if (
+    typeof overrides !== 'object' ||
+    overrides === null ||
+    Array.isArray(overrides)
+  ) {
+    throw new Error(
+      `The 'sharedModules' field of the scalprum config should map module names to a sharing configuration, or to false to exclude them`,
+    );
+  }
+  const result = { ...sharedModules };
+  for (const [name, config] of Object.entries(overrides)) {
+    if (config === false) {
+      delete result[name];
+    } else if (typeof config === 'object' && config !== null) {
+      result[name] = config;
+    } else {
+      throw new Error(
+        `Invalid sharing configuration for module '${name}' in the 'sharedModules' field of the scalprum config: expected an object, or false to exclude it`,
+      );
+    }
+  }
+  return result;
+}
@@ -0,0 +1,169 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { findBundledSingletons } from './singletonCheck';
+
+const reactEntry = '/plugin/node_modules/react/index.js';
+const coreStylesEntry =
+  '/plugin/node_modules/@material-ui/core/esm/styles/index.js';
+
+const singletonEntries = new Map([
+  ['react', reactEntry],
+  ['@material-ui/core/styles', coreStylesEntry],
+]);
+
+describe('findBundledSingletons', () => {
+  it('ignores singletons only reached through module federation sharing', () => {
+    expect(
+      findBundledSingletons(
+        [
+          {
+            identifier: 'exposed',
+            name: './src/index.ts',
+            reasons: [{ type: 'container exposed' }],
+          },
+          {
+            identifier: 'consume-react',
+            name: 'consume shared module (default) react@* (singleton)',
+            reasons: [{ type: 'harmony import', moduleIdentifier: 'exposed' }],
+          },
+          {
+            identifier: 'react',
+            name: './node_modules/react/index.js',
+            nameForCondition: reactEntry,
+            reasons: [
+              {
+                type: 'consume shared fallback',
+                moduleIdentifier: 'consume-react',
+              },
+            ],
+          },
+          {
+            identifier: 'jsx-runtime',
+            name: './node_modules/react/jsx-runtime.js',
+            nameForCondition: '/plugin/node_modules/react/jsx-runtime.js',
+            reasons: [{ type: 'harmony import', moduleIdentifier: 'exposed' }],
+          },
+        ],
+        singletonEntries,
+      ),
+    ).toEqual([]);
+  });
+
+  it('reports the import chain of bundled singletons', () => {
+    expect(
+      findBundledSingletons(
+        [
+          {
+            identifier: 'concatenated',
+            name: './src/index.ts + 1 modules',
+            modules: [
+              {
+                identifier: 'exposed',
+                name: './src/index.ts',
+                reasons: [{ type: 'container exposed' }],
+              },
+              {
+                identifier: 'component',
+                name: './src/components/Example.tsx',
+                reasons: [
+                  { type: 'harmony import', moduleIdentifier: 'exposed' },
+                ],
+              },
+            ],
+          },
+          {
+            identifier: 'core',
+            name: './node_modules/@material-ui/core/esm/index.js',
+            reasons: [
+              { type: 'harmony import', moduleIdentifier: 'component' },
+            ],
+          },
+          {
+            identifier: 'core-styles',
+            name: './node_modules/@material-ui/core/esm/styles/index.js',
+            nameForCondition: coreStylesEntry,
+            reasons: [
+              { type: 'harmony import', moduleIdentifier: 'core' },
+              { type: 'harmony import', moduleIdentifier: 'core-styles' },
+            ],
+          },
+        ],
+        singletonEntries,
+      ),
+    ).toEqual([
+      {
+        name: '@material-ui/core/styles',
+        module: './node_modules/@material-ui/core/esm/styles/index.js',
+        importChain: [
+          './src/index.ts',
+          './src/components/Example.tsx',
+          './node_modules/@material-ui/core/esm/index.js',
+        ],
+      },
+    ]);
+  });
+
+  it('reports the singletons imported through an import cycle', () => {
+    expect(
+      findBundledSingletons(
+        [
+          {
+            identifier: 'exposed',
+            name: './src/index.ts',
+            reasons: [{ type: 'container exposed' }],
+          },
+          {
+            identifier: 'react',
+            name: './node_modules/react/index.js',
+            nameForCondition: reactEntry,
+            reasons: [
+              { type: 'harmony import', moduleIdentifier: 'cyclic' },
+              { type: 'harmony import', moduleIdentifier: 'exposed' },
+            ],
+          },
+          {
+            identifier: 'cyclic',
+            name: './src/cyclic.ts',
+            reasons: [{ type: 'harmony import', moduleIdentifier: 'react' }],
+          },
+          {
+            identifier: 'core-styles',
+            name: './node_modules/@material-ui/core/esm/styles/index.js',
+            nameForCondition: coreStylesEntry,
+            reasons: [{ type: 'harmony import', moduleIdentifier: 'cyclic' }],
+          },
+        ],
+        singletonEntries,
+      ),
+    ).toEqual([
+      {
+        name: 'react',
+        module: './node_modules/react/index.js',
+        importChain: ['./src/index.ts'],
+      },
+      {
+        name: '@material-ui/core/styles',
+        module: './node_modules/@material-ui/core/esm/styles/index.js',
+        importChain: [
+          './src/index.ts',
+          './node_modules/react/index.js',
+          './src/cyclic.ts',
+        ],
+      },
+    ]);
+  });
+});
@@ -0,0 +1,203 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import chalk from 'chalk';
+import webpack from 'webpack';
+
+import { SharedModules } from './sharedModules';
+
+/**
+ * What to do when a frontend dynamic plugin bundles its own copy of a
+ * singleton shared with the RHDH app.
+ */
+export type SingletonCheckMode = 'fail' | 'warn' | 'off';
+
+export type BundledSingleton = {
+  /** Name of the shared singleton module */
+  name: string;
+  /** The bundled copy of the module */
+  module: string;
+  /** Modules through which the copy is imported, from the plugin entry */
+  importChain: string[];
+};
+
+/** The fields of the webpack stats modules used by the check */
+type StatsModule = {
+  identifier?: string;
+  name?: string;
+  nameForCondition?: string | null;
+  reasons?: { type?: string | null; moduleIdentifier?: string | null }[];
+  modules?: StatsModule[];
+};
+
+/** Dependencies through which webpack shares a module instead of bundling it */
+const SHARING_DEPENDENCY_TYPES = [
+  'consume shared fallback',
+  'provide module for shared',
+];
+
+function flattenModules(modules: StatsModule[]): StatsModule[] {
+  return modules.flatMap(module => [
+    module,
+    ...flattenModules(module.modules ?? []),
+  ]);
+}
+
+/**
+ * Finds the emitted modules that are the entry of a shared singleton, and
+ * that are imported by the plugin without going through module federation
+ * sharing, for example through a relative import in another package.
+ *
+ * @param modules - The modules of the webpack stats, with their reasons
+ * @param singletonEntries - The resolved entry file of every singleton
+ */
+export function findBundledSingletons(
+  modules: StatsModule[],
+  singletonEntries: Map<string, string>,
+): BundledSingleton[] {
+  const allModules = flattenModules(modules);
+  const modulesByIdentifier = new Map(
+    allModules.map(module => [module.identifier, module]),
+  );
+
+  // Import chain from a plugin entry, if the module can be reached from one
+  // without going through a sharing dependency. Only final results are cached:
+  // a module found unreachable because its importers lead back to a module
+  // still being explored may be reachable once that module is explored.
+  const chains = new Map<string, string[] | undefined>();
+  const visiting = new Set<string>();
+  const findImportChain = (
+    module: StatsModule,
+  ): { chain?: string[]; final: boolean } => {
+    const identifier = module.identifier ?? '';
+    if (chains.has(identifier)) {
+      return { chain: chains.get(identifier), final: true };
+    }
+    // Import cycles are not followed
+    if (visiting.has(identifier)) {
+      return { final: false };
+    }
+    visiting.add(identifier);
+    let chain: string[] | undefined;
+    let final = true;
+    for (const reason of module.reasons ?? []) {
+      if (SHARING_DEPENDENCY_TYPES.includes(reason.type ?? '')) {
+        continue;
+      }
+      const parent = reason.moduleIdentifier
+        ? modulesByIdentifier.get(reason.moduleIdentifier)
+        : undefined;
+      if (!parent) {
+        chain = [];
+        break;
+      }
+      const parentResult = findImportChain(parent);
+      if (parentResult.chain) {
+        chain = [...parentResult.chain, parent.name ?? parent.identifier ?? ''];
+        break;
+      }
+      final &&= parentResult.final;
+    }
+    visiting.delete(identifier);
+    if (chain || final) {
+      chains.set(identifier, chain);
+    }
+    return { chain, final: chain !== undefined || final };
+  };
+
+  const bundledSingletons: BundledSingleton[] = [];
+  for (const [name, entry] of singletonEntries) {
+    for (const module of allModules) {
+      if (module.nameForCondition !== entry) {
+        continue;
+      }
+      const importChain = findImportChain(module).chain;
+      if (importChain) {
+        bundledSingletons.push({
+          name,
+          module: module.name ?? entry,
+          importChain,
+        });
+      }
+    }
+  }
+  return bundledSingletons;
+}
+
+async function resolveSingletonEntries(
+  stats: webpack.Stats,
+  sharedModules: SharedModules,
+  context: string,
+): Promise<Map<string, string>> {
+  // The resolver of the compilation, configured like for the plugin imports
+  const resolver = stats.compilation.compiler.resolverFactory.get('normal', {
+    dependencyType: 'esm',
+  });
+  const entries = new Map<string, string>();
+  for (const [name, config] of Object.entries(sharedModules)) {
+    if (!config.singleton) {
+      continue;
+    }
+    const entry = await new Promise<string | false | undefined>(resolve =>
+      resolver.resolve({}, context, name, {}, (err, result) =>
+        resolve(err ? undefined : result),
+      ),
+    );
+    if (entry) {
+      entries.set(name, entry);
+    }
+  }
+  return entries;
+}
+
+/**
+ * Finds the singletons shared with the RHDH app which are bundled by a
+ * frontend dynamic plugin build instead of being shared.
+ */
+export async function checkBundledSingletons(
+  stats: webpack.Stats,
+  sharedModules: SharedModules,
+  context: string,
+): Promise<BundledSingleton[]> {
+  const { modules = [] } = stats.toJson({
+    all: false,
+    modules: true,
+    nestedModules: true,
+    reasons: true,
+    modulesSpace: Infinity,
+    nestedModulesSpace: Infinity,
+  });
+  return findBundledSingletons(
+    modules,
+    await resolveSingletonEntries(stats, sharedModules, context),
+  );
+}
+
+export function formatBundledSingletons(
+  bundledSingletons: BundledSingleton[],
+): string {
+  return [
+    `The plugin bundles its own copy of singletons shared by the RHDH app, which breaks theming and API references at runtime:`,
+    ...bundledSingletons.map(
+      ({ name, module, importChain }) =>
+        `- ${chalk.cyan(name)} (${module}), imported through:\n    ${[
+          ...importChain,
+          module,
+        ].join('\n    → ')}`,
+    ),
+    `Import these modules by their package name so that they are shared, or exclude them from the shared modules in the 'sharedModules' field of the scalprum config.`,
+  ].join('\n');
+}
@@ -0,0 +1,129 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import os from 'node:os';
+import path from 'node:path';
+
+import { checkSizeBudgets, measureAssets, parseSize } from './sizeBudgets';
+
+describe('parseSize', () => {
+  it('parses sizes with units', () => {
+    expect(parseSize(1234)).toBe(1234);
+    expect(parseSize('1234')).toBe(1234);
+    expect(parseSize('250kB')).toBe(250000);
+    expect(parseSize('1.5 MiB')).toBe(1572864);
+    expect(() => parseSize('12 parsecs')).toThrow(/Invalid size '12 parsecs'/);
+  });
+});
+
+describe('measureAssets', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'size-budgets-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  it('measures the scripts and finds the entry script', async () => {
+    await fs.outputFile(path.join(workDir, 'plugin-entry.js'), 'a'.repeat(10));
+    await fs.outputFile(
+      path.join(workDir, 'static', 'chunk.js'),
+      'b'.repeat(2000),
+    );
+    await fs.outputFile(path.join(workDir, 'static', 'chunk.js.map'), '{}');
+    await fs.outputJson(path.join(workDir, 'plugin-manifest.json'), {
+      loadScripts: ['plugin-entry.js'],
+    });
+
+    const sizes = await measureAssets(workDir);
+
+    expect(sizes.chunkCount).toBe(2);
+    expect(sizes.chunks.map(chunk => chunk.file)).toEqual([
+      'plugin-entry.js',
+      'static/chunk.js',
+    ]);
+    expect(sizes.entryScript?.file).toBe('plugin-entry.js');
+    expect(sizes.largestChunk?.file).toBe('static/chunk.js');
+    expect(sizes.totalGzipSize).toBe(
+      sizes.chunks[0].gzipSize + sizes.chunks[1].gzipSize,
+    );
+  });
+
+  it('only measures the scripts of the module federation manifest', async () => {
+    await fs.outputFile(path.join(workDir, 'remoteEntry.js'), 'a'.repeat(10));
+    await fs.outputFile(path.join(workDir, 'static', 'exposed.js'), 'b');
+    await fs.outputFile(path.join(workDir, 'static', 'react.js'), 'c');
+    // Output of the regular package build
+    await fs.outputFile(path.join(workDir, 'index.esm.js'), 'd');
+    await fs.outputFile(path.join(workDir, 'esm', 'Example.esm.js'), 'e');
+    await fs.outputJson(path.join(workDir, 'mf-manifest.json'), {
+      metaData: { remoteEntry: { name: 'remoteEntry.js', path: '' } },
+      exposes: [
+        {
+          assets: {
+            js: { sync: ['static/exposed.js'], async: ['static/react.js'] },
+          },
+        },
+      ],
+      shared: [{ assets: { js: { sync: ['static/react.js'], async: [] } } }],
+    });
+
+    const sizes = await measureAssets(workDir);
+
+    expect(sizes.chunks.map(chunk => chunk.file)).toEqual([
+      'remoteEntry.js',
+      'static/exposed.js',
+      'static/react.js',
+    ]);
+    expect(sizes.chunkCount).toBe(3);
+    expect(sizes.entryScript?.file).toBe('remoteEntry.js');
+  });
+});
+
+describe('checkSizeBudgets', () => {
+  const sizes = {
+    totalGzipSize: 3000,
+    chunkCount: 3,
+    largestChunk: { file: 'static/big.js', size: 9000, gzipSize: 2000 },
+    entryScript: { file: 'plugin-entry.js', size: 900, gzipSize: 500 },
+    chunks: [],
+  };
+
+  it('reports the exceeded budgets', () => {
+    expect(
+      checkSizeBudgets(sizes, {
+        totalGzipSize: '2KiB',
+        largestChunkGzipSize: 2000,
+        chunkCount: 2,
+        entryScriptGzipSize: 100,
+      }),
+    ).toEqual([
+      'total size is 2.9 KiB gzipped, over the budget of 2.0 KiB',
+      'entry script (plugin-entry.js) is 500 B gzipped, over the budget of 100 B',
+      '3 chunks, over the budget of 2',
+    ]);
+  });
+
+  it('accepts assets within their budgets', () => {
+    expect(checkSizeBudgets(sizes, {})).toEqual([]);
+    expect(checkSizeBudgets(sizes, { totalGzipSize: '1MB' })).toEqual([]);
+  });
+});
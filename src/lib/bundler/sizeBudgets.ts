@@ -0,0 +1,240 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import path from 'path';
+import { promisify } from 'util';
+import { gzip } from 'zlib';
+
+const gzipAsync = promisify(gzip);
+
+/**
+ * A size in bytes, or a string with a unit, for example `250kB` or `1.5MiB`.
+ */
+export type Size = number | string;
+
+/**
+ * Size budgets of the JavaScript assets of a dynamic frontend plugin, with
+ * gzip compressed sizes.
+ */
+export type SizeBudgets = {
+  totalGzipSize?: Size;
+  largestChunkGzipSize?: Size;
+  chunkCount?: number;
+  entryScriptGzipSize?: Size;
+};
+
+export type AssetSize = {
+  file: string;
+  size: number;
+  gzipSize: number;
+};
+
+export type AssetSizes = {
+  totalGzipSize: number;
+  chunkCount: number;
+  largestChunk?: AssetSize;
+  entryScript?: AssetSize;
+  chunks: AssetSize[];
+};
+
+export const SIZE_PATTERN = '^[0-9]+(\\.[0-9]+)?\\s*(B|kB|KiB|MB|MiB)?$';
+
+const SIZE_UNITS: Record<string, number> = {
+  B: 1,
+  kB: 1000,
+  KiB: 1024,
+  MB: 1000 * 1000,
+  MiB: 1024 * 1024,
+};
+
+export function parseSize(size: Size): number {
+  if (typeof size === 'number') {
+    return size;
+  }
+  const match = size.trim().match(new RegExp(SIZE_PATTERN));
+  if (!match) {
+    throw new Error(
+      `Invalid size '${size}', expected a number of bytes or a number with one of the units ${Object.keys(
+        SIZE_UNITS,
+      ).join(', ')}`,
+    );
+  }
+  return Math.round(parseFloat(size) * SIZE_UNITS[match[2] ?? 'B']);
+}
+
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KiB`;
+  }
+  return `${(bytes / 1024 / 1024).toFixed(2)} MiB`;
+}
+
+async function listScripts(dir: string): Promise<string[]> {
+  const files: string[] = [];
+  for (const entry of await fs.readdir(dir, { withFileTypes: true })) {
+    const file = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      files.push(...(await listScripts(file)));
+    } else if (entry.name.endsWith('.js')) {
+      files.push(file);
+    }
+  }
+  return files;
+}
+
+type ManifestAssets = { js?: { sync?: string[]; async?: string[] } };
+
+/**
+ * Returns the scripts emitted by a module federation build, declared in its
+ * `mf-manifest.json` file: the remote entry and the chunks of the exposed and
+ * shared modules. The build output directory of a module federation remote
+ * also holds the output of the regular package build, which is not measured.
+ *
+ * @returns the scripts, or undefined if the directory has no manifest
+ */
+async function listModuleFederationScripts(
+  dir: string,
+): Promise<string[] | undefined> {
+  const mfManifest = path.join(dir, 'mf-manifest.json');
+  if (!(await fs.pathExists(mfManifest))) {
+    return undefined;
+  }
+  const manifest = await fs.readJson(mfManifest);
+  const scripts = new Set<string>();
+  const remoteEntry = manifest.metaData?.remoteEntry;
+  if (remoteEntry?.name) {
+    scripts.add(path.posix.join(remoteEntry.path ?? '', remoteEntry.name));
+  }
+  for (const { assets } of [
+    ...(manifest.exposes ?? []),
+    ...(manifest.shared ?? []),
+  ] as { assets?: ManifestAssets }[]) {
+    for (const script of [
+      ...(assets?.js?.sync ?? []),
+      ...(assets?.js?.async ?? []),
+    ]) {
+      scripts.add(path.posix.normalize(script));
+    }
+  }
+  const files: string[] = [];
+  for (const script of scripts) {
+    const file = path.join(dir, ...script.split('/'));
+    if (await fs.pathExists(file)) {
+      files.push(file);
+    }
+  }
+  return files;
+}
+
+/**
+ * Returns the entry script of the assets, as declared in the Scalprum plugin
+ * manifest or in the module federation manifest.
+ */
+async function readEntryScript(dir: string): Promise<string | undefined> {
+  const pluginManifest = path.join(dir, 'plugin-manifest.json');
+  if (await fs.pathExists(pluginManifest)) {
+    const { loadScripts } = await fs.readJson(pluginManifest);
+    return Array.isArray(loadScripts) ? loadScripts[0] : undefined;
+  }
+  const mfManifest = path.join(dir, 'mf-manifest.json');
+  if (await fs.pathExists(mfManifest)) {
+    const remoteEntry = (await fs.readJson(mfManifest)).metaData?.remoteEntry;
+    return remoteEntry?.name
+      ? path.posix.join(remoteEntry.path ?? '', remoteEntry.name)
+      : undefined;
+  }
+  return undefined;
+}
+
+/**
+ * Measures the JavaScript assets of a dynamic frontend plugin build output
+ * directory: the scripts of its module federation manifest if any, or else
+ * all the scripts of the directory.
+ */
+export async function measureAssets(dir: string): Promise<AssetSizes> {
+  const chunks: AssetSize[] = [];
+  const scripts =
+    (await listModuleFederationScripts(dir)) ?? (await listScripts(dir));
+  for (const file of scripts) {
+    const content = await fs.readFile(file);
+    chunks.push({
+      file: path.relative(dir, file).split(path.sep).join('/'),
+      size: content.length,
+      gzipSize: (await gzipAsync(content)).length,
+    });
+  }
+  chunks.sort((a, b) => a.file.localeCompare(b.file));
+
+  const entryScript = await readEntryScript(dir);
+  return {
+    totalGzipSize: chunks.reduce((total, chunk) => total + chunk.gzipSize, 0),
+    chunkCount: chunks.length,
+    largestChunk: chunks.reduce<AssetSize | undefined>(
+      (largest, chunk) =>
+        !largest || chunk.gzipSize > largest.gzipSize ? chunk : largest,
+      undefined,
+    ),
+    entryScript: chunks.find(chunk => chunk.file === entryScript),
+    chunks,
+  };
+}
+
+/**
+ * Returns the budgets exceeded by the measured assets.
+ */
+export function checkSizeBudgets(
+  sizes: AssetSizes,
+  budgets: SizeBudgets,
+): string[] {
+  const violations: string[] = [];
+  const checkSize = (
+    label: string,
+    budget: Size | undefined,
+    asset: { gzipSize: number; file?: string } | undefined,
+  ) => {
+    if (budget === undefined || !asset) {
+      return;
+    }
+    const limit = parseSize(budget);
+    if (asset.gzipSize > limit) {
+      violations.push(
+        `${label}${asset.file ? ` (${asset.file})` : ''} is ${formatSize(
+          asset.gzipSize,
+        )} gzipped, over the budget of ${formatSize(limit)}`,
+      );
+    }
+  };
+
+  checkSize('total size', budgets.totalGzipSize, {
+    gzipSize: sizes.totalGzipSize,
+  });
+  checkSize('largest chunk', budgets.largestChunkGzipSize, sizes.largestChunk);
+  checkSize('entry script', budgets.entryScriptGzipSize, sizes.entryScript);
+  if (
+    budgets.chunkCount !== undefined &&
+    sizes.chunkCount > budgets.chunkCount
+  ) {
+    violations.push(
+      `${sizes.chunkCount} chunks, over the budget of ${budgets.chunkCount}`,
+    );
+  }
+  return violations;
+}
@@ -20,6 +20,7 @@ import { ConfigSchema } from '@backstage/config-loader';
 import { PluginBuildMetadata } from '@openshift/dynamic-plugin-sdk-webpack';
 
 import { BundlingPathsOptions } from './paths';
+import { SharedModules } from './sharedModules';
 
 export type BundlingOptions = {
   checksEnabled: boolean;
@@ -29,6 +30,8 @@ export type BundlingOptions = {
   baseUrl: URL;
   parallelism?: number;
   additionalEntryPoints?: string[];
+  /** Modules shared with the dynamic frontend plugins */
+  sharedModules: SharedModules;
 };
 
 /**
@@ -39,6 +42,8 @@ export type DynamicPluginOptions = {
   isDev?: boolean;
   parallelism?: number;
   pluginMetadata: PluginBuildMetadata;
+  /** Modules shared with the RHDH app */
+  sharedModules: SharedModules;
 };
 
 export type ServeOptions = BundlingPathsOptions & {
@@ -0,0 +1,122 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  findIncompatiblePackages,
+  resolveCompatibilityTarget,
+  selectRhdhRelease,
+} from './compatibility';
+
+describe('selectRhdhRelease', () => {
+  it('selects the RHDH release given as major.minor or as a full version', () => {
+    expect(selectRhdhRelease('1.7')).toEqual({
+      rhdhVersion: '1.7',
+      backstageVersion: '1.39.1',
+    });
+    expect(selectRhdhRelease('2.0.3')).toEqual({
+      rhdhVersion: '2.0',
+      backstageVersion: '1.52.0',
+    });
+  });
+
+  it('rejects unknown RHDH releases', () => {
+    expect(() => selectRhdhRelease('0.1')).toThrow(
+      /Unknown RHDH release .*0\.1/,
+    );
+  });
+});
+
+describe('findIncompatiblePackages', () => {
+  const hostPackages = new Map([
+    ['@backstage/backend-plugin-api', '1.4.0'],
+    ['@backstage/core-plugin-api', '1.10.9'],
+  ]);
+
+  it('accepts the peer dependencies satisfied by the host release', () => {
+    expect(
+      findIncompatiblePackages(
+        {
+          '@backstage/backend-plugin-api': '^1.2.0',
+          '@backstage/core-plugin-api': '^1.10.0',
+          react: '^18.0.0',
+        },
+        hostPackages,
+      ),
+    ).toEqual([]);
+    expect(findIncompatiblePackages(undefined, hostPackages)).toEqual([]);
+  });
+
+  it('reports the unsatisfied and missing @backstage packages', () => {
+    expect(
+      findIncompatiblePackages(
+        {
+          '@backstage/backend-plugin-api': '^1.5.0',
+          '@backstage/core-plugin-api': 'not-a-range',
+          '@backstage/plugin-unknown': '^1.0.0',
+        },
+        hostPackages,
+      ),
+    ).toEqual([
+      {
+        name: '@backstage/backend-plugin-api',
+        range: '^1.5.0',
+        hostVersion: '1.4.0',
+      },
+      {
+        name: '@backstage/core-plugin-api',
+        range: 'not-a-range',
+        hostVersion: '1.10.9',
+      },
+      {
+        name: '@backstage/plugin-unknown',
+        range: '^1.0.0',
+        hostVersion: undefined,
+      },
+    ]);
+  });
+});
+
+describe('resolveCompatibilityTarget', () => {
+  it('uses the given Backstage version', () => {
+    expect(
+      resolveCompatibilityTarget({
+        backstageVersion: '1.40.0',
+        rhdhVersion: '2.0',
+      }),
+    ).toEqual({ backstageVersion: '1.40.0' });
+  });
+
+  it('uses the Backstage version of the RHDH release', () => {
+    expect(resolveCompatibilityTarget({ rhdhVersion: '2.0' })).toEqual({
+      backstageVersion: '1.52.0',
+      rhdhVersion: '2.0',
+    });
+    expect(resolveCompatibilityTarget({ rhdhVersion: '1.8' })).toEqual({
+      backstageVersion: '1.42.5',
+      rhdhVersion: '1.8',
+    });
+  });
+
+  it('rejects invalid Backstage versions', () => {
+    expect(() =>
+      resolveCompatibilityTarget({ backstageVersion: '1.40' }),
+    ).toThrow(`Invalid target Backstage version '1.40'`);
+  });
+
+  it('returns undefined without a host release', () => {
+    expect(resolveCompatibilityTarget({})).toBeUndefined();
+  });
+});
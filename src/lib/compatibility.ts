@@ -0,0 +1,167 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import chalk from 'chalk';
+import fs from 'fs-extra';
+import * as semver from 'semver';
+
+import path from 'path';
+
+import { getBackstageManifest } from './backstageVersion';
+
+/** An RHDH release and the Backstage version it is based on */
+export type RhdhRelease = {
+  /** RHDH release, as `major.minor` */
+  rhdhVersion: string;
+  backstageVersion: string;
+};
+
+/**
+ * The supported RHDH releases, oldest first. A release should be added here
+ * for every new RHDH release.
+ */
+export const RHDH_RELEASES: RhdhRelease[] = [
+  { rhdhVersion: '1.5', backstageVersion: '1.35.1' },
+  { rhdhVersion: '1.6', backstageVersion: '1.36.1' },
+  { rhdhVersion: '1.7', backstageVersion: '1.39.1' },
+  { rhdhVersion: '1.8', backstageVersion: '1.42.5' },
+  { rhdhVersion: '1.9', backstageVersion: '1.45.3' },
+  { rhdhVersion: '2.0', backstageVersion: '1.52.0' },
+];
+
+/**
+ * Selects the RHDH release given as `major.minor` or as a full version.
+ */
+export function selectRhdhRelease(rhdhVersion: string): RhdhRelease {
+  const version = semver.coerce(rhdhVersion);
+  const release = version
+    ? RHDH_RELEASES.find(r => semver.satisfies(version, `~${r.rhdhVersion}`))
+    : undefined;
+  if (!release) {
+    throw new Error(
+      `Unknown RHDH release ${chalk.cyan(
+        rhdhVersion,
+      )}, supported RHDH releases are: ${RHDH_RELEASES.map(
+        r => r.rhdhVersion,
+      ).join(', ')}`,
+    );
+  }
+  return release;
+}
+
+/** The host release a dynamic plugin is checked against */
+export type CompatibilityTarget = {
+  backstageVersion: string;
+  /** RHDH release the Backstage version was selected from */
+  rhdhVersion?: string;
+};
+
+/** A `@backstage/*` peer dependency that the host release won't satisfy */
+export type IncompatiblePackage = {
+  name: string;
+  range: string;
+  /** Version of the package in the host release, undefined if not part of it */
+  hostVersion?: string;
+};
+
+/**
+ * Returns the host release to check the dynamic plugins against: the given
+ * Backstage version, or else the Backstage version the given RHDH release is
+ * based on.
+ *
+ * @returns the target, or undefined when no host release is given
+ */
+export function resolveCompatibilityTarget(options: {
+  backstageVersion?: string;
+  rhdhVersion?: string;
+}): CompatibilityTarget | undefined {
+  const { backstageVersion, rhdhVersion } = options;
+  if (backstageVersion) {
+    if (!semver.valid(backstageVersion)) {
+      throw new Error(
+        `Invalid target Backstage version '${backstageVersion}', expected a version such as 1.40.0`,
+      );
+    }
+    return { backstageVersion };
+  }
+  if (rhdhVersion) {
+    return {
+      backstageVersion: selectRhdhRelease(rhdhVersion).backstageVersion,
+      rhdhVersion,
+    };
+  }
+  return undefined;
+}
+
+/**
+ * Returns the `@backstage/*` peer dependencies whose range is not satisfied
+ * by the version of the package in the host release, or which are not part of
+ * the host release.
+ */
+export function findIncompatiblePackages(
+  peerDependencies: Record<string, string> | undefined,
+  hostPackages: Map<string, string>,
+): IncompatiblePackage[] {
+  const incompatible: IncompatiblePackage[] = [];
+  for (const [name, range] of Object.entries(peerDependencies ?? {})) {
+    if (!name.startsWith('@backstage/')) {
+      continue;
+    }
+    const hostVersion = hostPackages.get(name);
+    if (
+      !hostVersion ||
+      !semver.validRange(range) ||
+      !semver.satisfies(hostVersion, range)
+    ) {
+      incompatible.push({ name, range, hostVersion });
+    }
+  }
+  return incompatible;
+}
+
+/**
+ * Checks the `@backstage/*` peer dependencies of an exported dynamic plugin
+ * package against the release manifest of the host release.
+ */
+export async function checkHostCompatibility(
+  packageDir: string,
+  target: CompatibilityTarget,
+): Promise<IncompatiblePackage[]> {
+  const pkg = await fs.readJson(path.join(packageDir, 'package.json'));
+  return findIncompatiblePackages(
+    pkg.peerDependencies,
+    await getBackstageManifest(target.backstageVersion),
+  );
+}
+
+export function formatCompatibilityTarget(target: CompatibilityTarget) {
+  return target.rhdhVersion
+    ? `RHDH ${target.rhdhVersion} (Backstage ${target.backstageVersion})`
+    : `Backstage ${target.backstageVersion}`;
+}
+
+export function formatIncompatiblePackages(
+  packages: IncompatiblePackage[],
+): string {
+  return [
+    '',
+    ...packages.map(p =>
+      p.hostVersion
+        ? `${chalk.cyan(p.name)}@${p.range}: the host provides ${p.hostVersion}`
+        : `${chalk.cyan(p.name)}@${p.range}: not part of the host release`,
+    ),
+  ].join('\n- ');
+}
@@ -0,0 +1,54 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { globToRegExp, matchesAnyGlob } from './glob';
+
+describe('globToRegExp', () => {
+  it.each([
+    ['@acme/plugin-*', '@acme/plugin-catalog', true],
+    ['@acme/plugin-*', '@acme/plugin-catalog-backend', true],
+    ['@acme/*', '@other/plugin', false],
+    ['plugins/*', 'plugins/catalog/nested', false],
+    ['plugins/**', 'plugins/catalog/nested', true],
+    ['plugins/**/backend', 'plugins/backend', true],
+    ['plugins/**/backend', 'plugins/a/b/backend', true],
+    ['*-backend{,-module-*}', 'catalog-backend', true],
+    ['*-backend{,-module-*}', 'catalog-backend-module-github', true],
+    ['*-backend{,-module-*}', 'catalog-backend-node', false],
+    ['plugin-?', 'plugin-a', true],
+    ['plugin.a', 'pluginxa', false],
+  ])('matches %s against %s: %s', (pattern, value, expected) => {
+    expect(globToRegExp(pattern).test(value)).toBe(expected);
+  });
+
+  it('rejects unbalanced braces', () => {
+    expect(() => globToRegExp('plugin-{a,b')).toThrow(
+      "Invalid glob pattern 'plugin-{a,b', unbalanced braces",
+    );
+  });
+});
+
+describe('matchesAnyGlob', () => {
+  it('matches any value against any pattern', () => {
+    expect(
+      matchesAnyGlob(
+        ['@acme/plugin-search', 'plugins/search'],
+        ['plugins/catalog', 'plugins/s*'],
+      ),
+    ).toBe(true);
+    expect(matchesAnyGlob(['@acme/plugin-search'], [])).toBe(false);
+  });
+});
@@ -0,0 +1,69 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Converts a glob pattern to a regular expression matching the whole value.
+ *
+ * Supports `*` (anything but `/`), `**` (anything, including `/`), `?` (a
+ * single character other than `/`) and `{a,b}` alternatives, which is enough
+ * to match package names (`@scope/plugin-*`) and workspace paths
+ * (`plugins/**`).
+ */
+export function globToRegExp(pattern: string): RegExp {
+  let source = '';
+  let braceDepth = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        i++;
+        // `a/**/b` also matches `a/b`
+        if (pattern[i + 1] === '/') {
+          i++;
+          source += '(?:.*/)?';
+        } else {
+          source += '.*';
+        }
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '{') {
+      braceDepth++;
+      source += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      source += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      source += '|';
+    } else {
+      source += char.replace(/[.+^$()|[\]\\]/g, '\\$&');
+    }
+  }
+  if (braceDepth > 0) {
+    throw new Error(`Invalid glob pattern '${pattern}', unbalanced braces`);
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Returns whether any of the values matches any of the glob patterns.
+ */
+export function matchesAnyGlob(values: string[], patterns: string[]): boolean {
+  const expressions = patterns.map(globToRegExp);
+  return values.some(value => expressions.some(re => re.test(value)));
+}
@@ -0,0 +1,88 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import os from 'node:os';
+import path from 'node:path';
+
+import {
+  importManifest,
+  listStoredManifests,
+  readStoredManifest,
+} from './manifestStore';
+
+const manifest = (releaseVersion: string) => ({
+  releaseVersion,
+  packages: [{ name: '@backstage/core-plugin-api', version: '1.10.9' }],
+});
+
+describe('manifest store', () => {
+  let workDir: string;
+  let storeDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'manifest-store-'));
+    storeDir = path.join(workDir, 'manifests');
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  it('imports manifest files and lists them by version', async () => {
+    for (const version of ['1.40.0', '1.9.0']) {
+      await fs.writeJson(
+        path.join(workDir, `manifest-${version}.json`),
+        manifest(version),
+      );
+      await importManifest(
+        path.join(workDir, `manifest-${version}.json`),
+        storeDir,
+      );
+    }
+    await fs.outputFile(path.join(storeDir, 'README.md'), '');
+
+    await expect(listStoredManifests(storeDir)).resolves.toEqual([
+      {
+        version: '1.9.0',
+        packageCount: 1,
+        file: path.join(storeDir, '1.9.0.json'),
+      },
+      {
+        version: '1.40.0',
+        packageCount: 1,
+        file: path.join(storeDir, '1.40.0.json'),
+      },
+    ]);
+    await expect(readStoredManifest('1.40.0', storeDir)).resolves.toEqual(
+      manifest('1.40.0'),
+    );
+    await expect(
+      readStoredManifest('1.41.0', storeDir),
+    ).resolves.toBeUndefined();
+  });
+
+  it('rejects files which are not release manifests', async () => {
+    const file = path.join(workDir, 'package.json');
+    await fs.writeJson(file, { name: 'example', version: '1.0.0' });
+
+    await expect(importManifest(file, storeDir)).rejects.toThrow(
+      `Invalid Backstage release manifest in ${file}: 'releaseVersion' must be a valid version`,
+    );
+    await expect(listStoredManifests(storeDir)).resolves.toEqual([]);
+  });
+});
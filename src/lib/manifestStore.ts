@@ -0,0 +1,169 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ReleaseManifest } from '@backstage/release-manifests';
+
+import fs from 'fs-extra';
+import * as semver from 'semver';
+
+import os from 'node:os';
+import path from 'node:path';
+
+/**
+ * A Backstage release manifest stored on disk, so that plugins can be
+ * exported for several Backstage versions without network access.
+ */
+export type StoredManifest = {
+  version: string;
+  packageCount: number;
+  file: string;
+};
+
+/**
+ * Returns the directory of the manifest store: `RHDH_CLI_MANIFEST_CACHE_DIR`,
+ * or else `rhdh-cli/manifests` in `XDG_CACHE_HOME` or `~/.cache`.
+ */
+export function getManifestStoreDir(): string {
+  if (process.env.RHDH_CLI_MANIFEST_CACHE_DIR) {
+    return process.env.RHDH_CLI_MANIFEST_CACHE_DIR;
+  }
+  return path.join(
+    process.env.XDG_CACHE_HOME ?? path.join(os.homedir(), '.cache'),
+    'rhdh-cli',
+    'manifests',
+  );
+}
+
+/**
+ * Checks that a parsed JSON document is a Backstage release manifest, as
+ * served by https://versions.backstage.io/v1/releases/<version>/manifest.json
+ */
+export function assertReleaseManifest(
+  manifest: unknown,
+  source: string,
+): asserts manifest is ReleaseManifest {
+  const { releaseVersion, packages } = (manifest ?? {}) as Partial<
+    Record<keyof ReleaseManifest, unknown>
+  >;
+  if (typeof releaseVersion !== 'string' || !semver.valid(releaseVersion)) {
+    throw new Error(
+      `Invalid Backstage release manifest in ${source}: 'releaseVersion' must be a valid version`,
+    );
+  }
+  if (
+    !Array.isArray(packages) ||
+    packages.some(
+      pkg => typeof pkg?.name !== 'string' || typeof pkg?.version !== 'string',
+    )
+  ) {
+    throw new Error(
+      `Invalid Backstage release manifest in ${source}: 'packages' must list the names and versions of the packages`,
+    );
+  }
+}
+
+function manifestFile(version: string, storeDir: string): string {
+  return path.join(storeDir, `${version}.json`);
+}
+
+/**
+ * Reads the manifest of a Backstage release from the store.
+ *
+ * @returns the manifest, or undefined if it is not stored
+ */
+export async function readStoredManifest(
+  version: string,
+  storeDir: string = getManifestStoreDir(),
+): Promise<ReleaseManifest | undefined> {
+  const file = manifestFile(version, storeDir);
+  if (!(await fs.pathExists(file))) {
+    return undefined;
+  }
+  const manifest = await fs.readJson(file);
+  assertReleaseManifest(manifest, file);
+  return manifest;
+}
+
+/**
+ * Writes a Backstage release manifest to the store, replacing the stored
+ * manifest of the same release.
+ *
+ * @returns the file of the stored manifest
+ */
+export async function storeManifest(
+  manifest: ReleaseManifest,
+  storeDir: string = getManifestStoreDir(),
+): Promise<string> {
+  const file = manifestFile(manifest.releaseVersion, storeDir);
+  // Written to a temporary file first so that concurrent exports never read a partial manifest
+  const tmpFile = `${file}.${process.pid}.tmp`;
+  await fs.outputJson(tmpFile, manifest, { spaces: 2 });
+  await fs.rename(tmpFile, file);
+  return file;
+}
+
+/**
+ * Reads a Backstage release manifest file, for example downloaded from
+ * https://versions.backstage.io, and adds it to the store.
+ *
+ * @returns the stored manifest
+ */
+export async function importManifest(
+  file: string,
+  storeDir: string = getManifestStoreDir(),
+): Promise<StoredManifest> {
+  let manifest: unknown;
+  try {
+    manifest = await fs.readJson(file);
+  } catch (error) {
+    throw new Error(
+      `Failed to read Backstage release manifest ${file}: ${error}`,
+    );
+  }
+  assertReleaseManifest(manifest, file);
+  return {
+    version: manifest.releaseVersion,
+    packageCount: manifest.packages.length,
+    file: await storeManifest(manifest, storeDir),
+  };
+}
+
+/**
+ * Lists the manifests of the store, from the oldest to the newest release.
+ */
+export async function listStoredManifests(
+  storeDir: string = getManifestStoreDir(),
+): Promise<StoredManifest[]> {
+  if (!(await fs.pathExists(storeDir))) {
+    return [];
+  }
+  const manifests: StoredManifest[] = [];
+  for (const entry of await fs.readdir(storeDir)) {
+    const version = entry.replace(/\.json$/, '');
+    if (entry === version || !semver.valid(version)) {
+      continue;
+    }
+    const manifest = await readStoredManifest(version, storeDir);
+    if (manifest) {
+      manifests.push({
+        version,
+        packageCount: manifest.packages.length,
+        file: manifestFile(version, storeDir),
+      });
+    }
+  }
+  return manifests.sort((a, b) => semver.compare(a.version, b.version));
+}
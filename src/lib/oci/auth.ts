@@ -0,0 +1,138 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import os from 'node:os';
+import path from 'node:path';
+
+import { DOCKER_HUB_REGISTRY } from './reference';
+
+export type RegistryCredentials = {
+  username: string;
+  password: string;
+};
+
+type AuthFile = {
+  auths?: Record<
+    string,
+    { auth?: string; username?: string; password?: string } | undefined
+  >;
+};
+
+/**
+ * Returns the candidate authentication files, in the same order as podman and
+ * skopeo look them up: `REGISTRY_AUTH_FILE`, the podman runtime auth file,
+ * then the Docker client configuration.
+ */
+export function getAuthFilePaths(): string[] {
+  const candidates: string[] = [];
+  if (process.env.REGISTRY_AUTH_FILE) {
+    candidates.push(process.env.REGISTRY_AUTH_FILE);
+  }
+  if (process.env.XDG_RUNTIME_DIR) {
+    candidates.push(
+      path.join(process.env.XDG_RUNTIME_DIR, 'containers', 'auth.json'),
+    );
+  }
+  candidates.push(
+    path.join(
+      process.env.DOCKER_CONFIG ?? path.join(os.homedir(), '.docker'),
+      'config.json',
+    ),
+  );
+  return candidates;
+}
+
+/**
+ * Finds the credentials for a repository in the standard container
+ * authentication files. Entries scoped to a namespace
+ * (`quay.io/org`) take precedence over registry-wide ones.
+ *
+ * Credential helpers (`credsStore`, `credHelpers`) are not supported.
+ */
+export async function findRegistryCredentials(
+  registry: string,
+  repository: string,
+  authFiles: string[] = getAuthFilePaths(),
+): Promise<RegistryCredentials | undefined> {
+  for (const authFile of authFiles) {
+    if (!(await fs.pathExists(authFile))) {
+      continue;
+    }
+    let content: AuthFile;
+    try {
+      content = await fs.readJson(authFile);
+    } catch (error) {
+      throw new Error(
+        `Failed to read registry authentication file ${authFile}: ${error}`,
+      );
+    }
+    const auths = content.auths ?? {};
+    const key = matchingAuthKey(Object.keys(auths), registry, repository);
+    const entry = key ? auths[key] : undefined;
+    if (!entry) {
+      continue;
+    }
+    if (entry.username && entry.password) {
+      return { username: entry.username, password: entry.password };
+    }
+    if (entry.auth) {
+      const decoded = Buffer.from(entry.auth, 'base64').toString('utf8');
+      const separator = decoded.indexOf(':');
+      if (separator > 0) {
+        return {
+          username: decoded.slice(0, separator),
+          password: decoded.slice(separator + 1),
+        };
+      }
+    }
+  }
+  return undefined;
+}
+
+function matchingAuthKey(
+  keys: string[],
+  registry: string,
+  repository: string,
+): string | undefined {
+  const normalize = (key: string) => {
+    const withoutScheme = key.replace(/^https?:\/\//, '').replace(/\/+$/, '');
+    if (
+      withoutScheme === 'index.docker.io/v1' ||
+      withoutScheme === 'index.docker.io' ||
+      withoutScheme === 'registry-1.docker.io'
+    ) {
+      return DOCKER_HUB_REGISTRY;
+    }
+    return withoutScheme;
+  };
+
+  const scopes: string[] = [];
+  const segments = repository.split('/');
+  for (let i = segments.length; i > 0; i--) {
+    scopes.push(`${registry}/${segments.slice(0, i).join('/')}`);
+  }
+  scopes.push(registry);
+
+  for (const scope of scopes) {
+    const key = keys.find(k => normalize(k) === scope);
+    if (key) {
+      return key;
+    }
+  }
+  return undefined;
+}
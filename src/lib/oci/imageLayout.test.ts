@@ -0,0 +1,199 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+import * as tar from 'tar';
+
+import { createHash } from 'node:crypto';
+import os from 'node:os';
+import path from 'node:path';
+import { gunzipSync } from 'node:zlib';
+
+import {
+  parseKeyValuePairs,
+  parsePlatform,
+  writeOciImageLayout,
+} from './imageLayout';
+
+function sha256(data: Buffer) {
+  return `sha256:${createHash('sha256').update(data).digest('hex')}`;
+}
+
+async function listTar(file: string) {
+  const entries: { path: string; type: string; size: number }[] = [];
+  await tar.t({
+    file,
+    onReadEntry: entry => {
+      entries.push({ path: entry.path, type: entry.type, size: entry.size });
+    },
+  });
+  return entries;
+}
+
+describe('writeOciImageLayout', () => {
+  let workDir: string;
+  let sourceDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'oci-test-'));
+    sourceDir = path.join(workDir, 'staging');
+    await fs.outputFile(path.join(sourceDir, 'index.json'), '[]');
+    await fs.outputFile(
+      path.join(sourceDir, 'my-plugin', 'package.json'),
+      '{"name":"my-plugin-dynamic"}',
+    );
+    await fs.outputFile(
+      path.join(sourceDir, 'my-plugin', 'dist', `${'a'.repeat(120)}.js`),
+      'module.exports = {};',
+    );
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  it('writes a spec-compliant image layout', async () => {
+    const layoutDir = path.join(workDir, 'layout');
+    const written = await writeOciImageLayout({
+      sourceDir,
+      outputPath: layoutDir,
+      platform: { os: 'linux', architecture: 'amd64' },
+      annotations: { 'io.backstage.dynamic-packages': 'W10=' },
+      labels: { 'org.example': 'label' },
+      refName: '1.0.0',
+    });
+
+    await expect(
+      fs.readJson(path.join(layoutDir, 'oci-layout')),
+    ).resolves.toEqual({ imageLayoutVersion: '1.0.0' });
+    const index = await fs.readJson(path.join(layoutDir, 'index.json'));
+    expect(index.manifests).toEqual([
+      {
+        ...written.manifest,
+        platform: { os: 'linux', architecture: 'amd64' },
+        annotations: { 'org.opencontainers.image.ref.name': '1.0.0' },
+      },
+    ]);
+
+    const blob = (digest: string) =>
+      fs.readFile(
+        path.join(layoutDir, 'blobs', 'sha256', digest.replace('sha256:', '')),
+      );
+    for (const descriptor of [
+      written.manifest,
+      written.config,
+      written.layer,
+    ]) {
+      const data = await blob(descriptor.digest);
+      expect(sha256(data)).toBe(descriptor.digest);
+      expect(data.length).toBe(descriptor.size);
+    }
+
+    const manifest = JSON.parse(
+      (await blob(written.manifest.digest)).toString(),
+    );
+    expect(manifest.annotations).toEqual({
+      'io.backstage.dynamic-packages': 'W10=',
+    });
+    expect(manifest.layers).toEqual([written.layer]);
+
+    const config = JSON.parse((await blob(written.config.digest)).toString());
+    expect(config.config.Labels).toEqual({ 'org.example': 'label' });
+    const layerTar = gunzipSync(await blob(written.layer.digest));
+    expect(config.rootfs.diff_ids).toEqual([sha256(layerTar)]);
+
+    const layerFile = path.join(workDir, 'layer.tar');
+    await fs.writeFile(layerFile, layerTar);
+    expect(await listTar(layerFile)).toEqual([
+      { path: 'index.json', type: 'File', size: 2 },
+      { path: 'my-plugin/', type: 'Directory', size: 0 },
+      { path: 'my-plugin/dist/', type: 'Directory', size: 0 },
+      {
+        path: `my-plugin/dist/${'a'.repeat(120)}.js`,
+        type: 'File',
+        size: 20,
+      },
+      { path: 'my-plugin/package.json', type: 'File', size: 28 },
+    ]);
+  });
+
+  it('produces the same digests for the same content', async () => {
+    const first = await writeOciImageLayout({
+      sourceDir,
+      outputPath: path.join(workDir, 'first'),
+      platform: { os: 'linux', architecture: 'amd64' },
+    });
+    const second = await writeOciImageLayout({
+      sourceDir,
+      outputPath: path.join(workDir, 'second'),
+      platform: { os: 'linux', architecture: 'amd64' },
+    });
+    expect(second).toEqual(first);
+  });
+
+  it('writes the layout as a tar archive', async () => {
+    const tarFile = path.join(workDir, 'out', 'image.tar');
+    const written = await writeOciImageLayout({
+      sourceDir,
+      outputPath: tarFile,
+    });
+
+    const paths = (await listTar(tarFile)).map(e => e.path);
+    expect(paths).toEqual(
+      expect.arrayContaining([
+        'oci-layout',
+        'index.json',
+        `blobs/sha256/${written.manifest.digest.replace('sha256:', '')}`,
+        `blobs/sha256/${written.layer.digest.replace('sha256:', '')}`,
+      ]),
+    );
+  });
+});
+
+describe('parsePlatform', () => {
+  it('parses os, architecture and variant', () => {
+    expect(parsePlatform('linux/arm64/v8')).toEqual({
+      os: 'linux',
+      architecture: 'arm64',
+      variant: 'v8',
+    });
+    expect(parsePlatform('linux/amd64')).toEqual({
+      os: 'linux',
+      architecture: 'amd64',
+    });
+  });
+
+  it('rejects invalid values', () => {
+    expect(() => parsePlatform('linux')).toThrow(
+      "Invalid platform 'linux', expected the 'os/arch[/variant]' format (for example 'linux/amd64')",
+    );
+  });
+});
+
+describe('parseKeyValuePairs', () => {
+  it('splits on the first equal sign', () => {
+    expect(parseKeyValuePairs(['a=b', 'c=d=e'], '--label')).toEqual({
+      a: 'b',
+      c: 'd=e',
+    });
+  });
+
+  it('rejects values without a key', () => {
+    expect(() => parseKeyValuePairs(['=b'], '--label')).toThrow(
+      "Invalid value for --label: '=b', expected the 'key=value' format",
+    );
+  });
+});
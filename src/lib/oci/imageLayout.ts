@@ -0,0 +1,262 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import { createHash, Hash } from 'node:crypto';
+import os from 'node:os';
+import path from 'node:path';
+import { Readable, Transform } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { createGzip } from 'node:zlib';
+
+import { packDirectory, writeTarFile } from './tar';
+import {
+  Descriptor,
+  ImageConfig,
+  ImageIndex,
+  ImageManifest,
+  MEDIA_TYPE_IMAGE_CONFIG,
+  MEDIA_TYPE_IMAGE_INDEX,
+  MEDIA_TYPE_IMAGE_LAYER_GZIP,
+  MEDIA_TYPE_IMAGE_MANIFEST,
+  Platform,
+  REF_NAME_ANNOTATION,
+} from './types';
+
+export type WriteImageLayoutOptions = {
+  /** Directory whose content becomes the single layer of the image. */
+  sourceDir: string;
+  /**
+   * Output OCI image layout directory, or tar archive of the layout when the
+   * path ends with `.tar`.
+   */
+  outputPath: string;
+  /** Manifest annotations. */
+  annotations?: Record<string, string>;
+  /** Image config labels. */
+  labels?: Record<string, string>;
+  /** Target platform, defaults to the current host. */
+  platform?: Platform;
+  /** Value of the `org.opencontainers.image.ref.name` index annotation. */
+  refName?: string;
+};
+
+export type WrittenImage = {
+  manifest: Descriptor;
+  config: Descriptor;
+  layer: Descriptor;
+};
+
+/**
+ * Builds a single-layer OCI image from a directory, like
+ * `FROM scratch` + `COPY . .` would, and writes it as an OCI image layout
+ * (https://github.com/opencontainers/image-spec/blob/main/image-layout.md).
+ *
+ * No container engine is involved: the layer is a deterministic tar of the
+ * directory, so the same input always yields the same image digest.
+ */
+export async function writeOciImageLayout(
+  options: WriteImageLayoutOptions,
+): Promise<WrittenImage> {
+  const { outputPath } = options;
+  if (!outputPath.endsWith('.tar')) {
+    return writeLayoutDirectory(outputPath, options);
+  }
+
+  const layoutDir = await fs.mkdtemp(path.join(os.tmpdir(), 'oci-layout-'));
+  try {
+    const written = await writeLayoutDirectory(layoutDir, options);
+    await fs.mkdirs(path.dirname(path.resolve(outputPath)));
+    await writeTarFile(layoutDir, outputPath);
+    return written;
+  } finally {
+    await fs.remove(layoutDir);
+  }
+}
+
+/**
+ * Parses a `os/arch[/variant]` platform string, as accepted by the
+ * `--platform` flag of container builders.
+ */
+export function parsePlatform(value: string | undefined): Platform {
+  if (!value) {
+    return hostPlatform();
+  }
+  const [platformOs, architecture, variant] = value.split('/');
+  if (!platformOs || !architecture) {
+    throw new Error(
+      `Invalid platform '${value}', expected the 'os/arch[/variant]' format (for example 'linux/amd64')`,
+    );
+  }
+  return { os: platformOs, architecture, ...(variant ? { variant } : {}) };
+}
+
+/**
+ * Parses `key=value` pairs as given to the `--annotation` and `--label` flags.
+ */
+export function parseKeyValuePairs(
+  pairs: string[] | undefined,
+  flag: string,
+): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const pair of pairs ?? []) {
+    const separator = pair.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(
+        `Invalid value for ${flag}: '${pair}', expected the 'key=value' format`,
+      );
+    }
+    result[pair.slice(0, separator)] = pair.slice(separator + 1);
+  }
+  return result;
+}
+
+function hostPlatform(): Platform {
+  const architectures: Record<string, string> = {
+    x64: 'amd64',
+    ia32: '386',
+    arm: 'arm',
+    arm64: 'arm64',
+    ppc64: 'ppc64le',
+    s390x: 's390x',
+  };
+  return {
+    os: 'linux',
+    architecture: architectures[process.arch] ?? process.arch,
+  };
+}
+
+async function writeLayoutDirectory(
+  layoutDir: string,
+  options: WriteImageLayoutOptions,
+): Promise<WrittenImage> {
+  const blobsDir = path.join(layoutDir, 'blobs', 'sha256');
+  await fs.mkdirs(blobsDir);
+
+  const platform = options.platform ?? hostPlatform();
+  const { layer, diffId } = await writeLayer(options.sourceDir, blobsDir);
+
+  const imageConfig: ImageConfig = {
+    ...platform,
+    config: {
+      ...(options.labels && Object.keys(options.labels).length > 0
+        ? { Labels: options.labels }
+        : {}),
+    },
+    rootfs: { type: 'layers', diff_ids: [diffId] },
+    history: [{ created_by: 'rhdh-cli plugin package' }],
+  };
+  const config = await writeJsonBlob(
+    blobsDir,
+    imageConfig,
+    MEDIA_TYPE_IMAGE_CONFIG,
+  );
+
+  const imageManifest: ImageManifest = {
+    schemaVersion: 2,
+    mediaType: MEDIA_TYPE_IMAGE_MANIFEST,
+    config,
+    layers: [layer],
+    ...(options.annotations && Object.keys(options.annotations).length > 0
+      ? { annotations: options.annotations }
+      : {}),
+  };
+  const manifest = await writeJsonBlob(
+    blobsDir,
+    imageManifest,
+    MEDIA_TYPE_IMAGE_MANIFEST,
+  );
+
+  const index: ImageIndex = {
+    schemaVersion: 2,
+    mediaType: MEDIA_TYPE_IMAGE_INDEX,
+    manifests: [
+      {
+        ...manifest,
+        platform,
+        ...(options.refName
+          ? { annotations: { [REF_NAME_ANNOTATION]: options.refName } }
+          : {}),
+      },
+    ],
+  };
+  await fs.writeJson(path.join(layoutDir, 'index.json'), index, { spaces: 2 });
+  await fs.writeJson(path.join(layoutDir, 'oci-layout'), {
+    imageLayoutVersion: '1.0.0',
+  });
+
+  return { manifest, config, layer };
+}
+
+/**
+ * Streams the tar of `sourceDir` through gzip into the blob store, hashing
+ * both the uncompressed (diff ID) and compressed (layer digest) content.
+ */
+async function writeLayer(
+  sourceDir: string,
+  blobsDir: string,
+): Promise<{ layer: Descriptor; diffId: string }> {
+  const uncompressedHash = createHash('sha256');
+  const compressedHash = createHash('sha256');
+  let compressedSize = 0;
+  const tmpFile = path.join(blobsDir, `.layer-${process.pid}.tmp`);
+
+  await pipeline(
+    Readable.from(packDirectory(sourceDir)),
+    hashingStream(uncompressedHash),
+    createGzip(),
+    hashingStream(compressedHash, size => {
+      compressedSize += size;
+    }),
+    fs.createWriteStream(tmpFile),
+  );
+
+  const hex = compressedHash.digest('hex');
+  await fs.move(tmpFile, path.join(blobsDir, hex), { overwrite: true });
+  return {
+    layer: {
+      mediaType: MEDIA_TYPE_IMAGE_LAYER_GZIP,
+      digest: `sha256:${hex}`,
+      size: compressedSize,
+    },
+    diffId: `sha256:${uncompressedHash.digest('hex')}`,
+  };
+}
+
+async function writeJsonBlob(
+  blobsDir: string,
+  content: object,
+  mediaType: string,
+): Promise<Descriptor> {
+  const data = Buffer.from(JSON.stringify(content), 'utf8');
+  const hex = createHash('sha256').update(data).digest('hex');
+  await fs.writeFile(path.join(blobsDir, hex), data);
+  return { mediaType, digest: `sha256:${hex}`, size: data.length };
+}
+
+function hashingStream(
+  hash: Hash,
+  onChunk?: (size: number) => void,
+): Transform {
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      hash.update(chunk);
+      onChunk?.(chunk.length);
+      callback(null, chunk);
+    },
+  });
+}
@@ -0,0 +1,41 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export { findRegistryCredentials, getAuthFilePaths } from './auth';
+export type { RegistryCredentials } from './auth';
+export {
+  parseKeyValuePairs,
+  parsePlatform,
+  writeOciImageLayout,
+} from './imageLayout';
+export type { WriteImageLayoutOptions, WrittenImage } from './imageLayout';
+export {
+  blobPath,
+  isOciImageLayout,
+  readOciImageLayout,
+  selectManifest,
+} from './layout';
+export type { LayoutImage } from './layout';
+export {
+  DOCKER_HUB_REGISTRY,
+  formatImageReference,
+  parseImageReference,
+} from './reference';
+export type { ImageReference } from './reference';
+export { RegistryClient, RegistryError } from './registry';
+export type { FetchedManifest, RegistryClientOptions } from './registry';
+export { readTarFiles } from './tar';
+export * from './types';
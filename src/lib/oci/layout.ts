@@ -0,0 +1,100 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import path from 'node:path';
+
+import {
+  Descriptor,
+  ImageIndex,
+  ImageManifest,
+  REF_NAME_ANNOTATION,
+} from './types';
+
+export type LayoutImage = {
+  /** Descriptor of the selected manifest, as listed in `index.json`. */
+  descriptor: Descriptor;
+  manifest: ImageManifest;
+  /** Raw manifest bytes, pushed as-is so that the digest is preserved. */
+  manifestData: Buffer;
+};
+
+export async function isOciImageLayout(directory: string): Promise<boolean> {
+  return fs.pathExists(path.join(directory, 'oci-layout'));
+}
+
+export function blobPath(layoutDir: string, digest: string): string {
+  const [algorithm, hex] = digest.split(':');
+  return path.join(layoutDir, 'blobs', algorithm, hex);
+}
+
+/**
+ * Selects a manifest of the `index.json` of an OCI image layout: the one
+ * annotated with the `refName` reference name if any, or the only one.
+ */
+export function selectManifest(
+  index: ImageIndex,
+  layout: string,
+  refName?: string,
+): Descriptor {
+  const manifests = index.manifests ?? [];
+  const named = refName
+    ? manifests.find(m => m.annotations?.[REF_NAME_ANNOTATION] === refName)
+    : undefined;
+  if (named) {
+    return named;
+  }
+  if (manifests.length !== 1) {
+    throw new Error(
+      refName
+        ? `No manifest with the '${refName}' reference name found in the OCI image layout ${layout}`
+        : `The OCI image layout ${layout} contains ${manifests.length} manifests, a reference name is required to select one of them`,
+    );
+  }
+  return manifests[0];
+}
+
+/**
+ * Reads an image manifest from an OCI image layout directory.
+ *
+ * When `refName` is given, the manifest annotated with the matching
+ * `org.opencontainers.image.ref.name` is selected, otherwise the layout must
+ * contain a single manifest.
+ */
+export async function readOciImageLayout(
+  layoutDir: string,
+  refName?: string,
+): Promise<LayoutImage> {
+  if (!(await isOciImageLayout(layoutDir))) {
+    throw new Error(
+      `${layoutDir} is not an OCI image layout directory, the 'oci-layout' file is missing`,
+    );
+  }
+  const index: ImageIndex = await fs.readJson(
+    path.join(layoutDir, 'index.json'),
+  );
+  const descriptor = selectManifest(index, layoutDir, refName);
+
+  const manifestData = await fs.readFile(
+    blobPath(layoutDir, descriptor.digest),
+  );
+  return {
+    descriptor,
+    manifest: JSON.parse(manifestData.toString('utf8')),
+    manifestData,
+  };
+}
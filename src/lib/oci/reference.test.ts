@@ -0,0 +1,112 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import os from 'node:os';
+import path from 'node:path';
+
+import { findRegistryCredentials } from './auth';
+import { formatImageReference, parseImageReference } from './reference';
+
+describe('parseImageReference', () => {
+  it.each([
+    [
+      'quay.io/org/plugins:1.0.0',
+      { registry: 'quay.io', repository: 'org/plugins', tag: '1.0.0' },
+    ],
+    [
+      'localhost:5000/plugins',
+      { registry: 'localhost:5000', repository: 'plugins', tag: 'latest' },
+    ],
+    [
+      'plugins:dev',
+      { registry: 'docker.io', repository: 'library/plugins', tag: 'dev' },
+    ],
+    [
+      'org/plugins@sha256:abc123',
+      {
+        registry: 'docker.io',
+        repository: 'org/plugins',
+        digest: 'sha256:abc123',
+      },
+    ],
+  ])('parses %s', (value, expected) => {
+    expect(parseImageReference(value)).toEqual(expected);
+    expect(parseImageReference(formatImageReference(expected))).toEqual(
+      expected,
+    );
+  });
+
+  it('rejects invalid references', () => {
+    expect(() => parseImageReference('quay.io/Org/plugins')).toThrow(
+      "Invalid repository 'Org/plugins' in image reference 'quay.io/Org/plugins'",
+    );
+    expect(() => parseImageReference('quay.io/org/plugins:a+b')).toThrow(
+      "Invalid tag 'a+b' in image reference 'quay.io/org/plugins:a+b'",
+    );
+  });
+});
+
+describe('findRegistryCredentials', () => {
+  let workDir: string;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'auth-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.remove(workDir);
+  });
+
+  it('prefers the most specific entry of the first matching file', async () => {
+    const encode = (value: string) => Buffer.from(value).toString('base64');
+    const podmanAuth = path.join(workDir, 'auth.json');
+    const dockerConfig = path.join(workDir, 'config.json');
+    await fs.writeJson(podmanAuth, {
+      auths: {
+        'quay.io': { auth: encode('registry-user:registry-pass') },
+        'quay.io/org': { auth: encode('org-user:org:pass') },
+      },
+    });
+    await fs.writeJson(dockerConfig, {
+      auths: {
+        'https://index.docker.io/v1/': { auth: encode('hub-user:hub-pass') },
+      },
+    });
+    const authFiles = [
+      path.join(workDir, 'missing.json'),
+      podmanAuth,
+      dockerConfig,
+    ];
+
+    await expect(
+      findRegistryCredentials('quay.io', 'org/plugins', authFiles),
+    ).resolves.toEqual({ username: 'org-user', password: 'org:pass' });
+    await expect(
+      findRegistryCredentials('quay.io', 'other/plugins', authFiles),
+    ).resolves.toEqual({
+      username: 'registry-user',
+      password: 'registry-pass',
+    });
+    await expect(
+      findRegistryCredentials('docker.io', 'library/plugins', authFiles),
+    ).resolves.toEqual({ username: 'hub-user', password: 'hub-pass' });
+    await expect(
+      findRegistryCredentials('ghcr.io', 'org/plugins', authFiles),
+    ).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,98 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+export const DOCKER_HUB_REGISTRY = 'docker.io';
+
+export type ImageReference = {
+  /** Registry host, with an optional port (for example `quay.io`). */
+  registry: string;
+  /** Repository path inside the registry (for example `org/image`). */
+  repository: string;
+  tag?: string;
+  digest?: string;
+};
+
+const REPOSITORY_PATTERN =
+  /^[a-z0-9]+(?:(?:[._]|__|-+)[a-z0-9]+)*(?:\/[a-z0-9]+(?:(?:[._]|__|-+)[a-z0-9]+)*)*$/;
+const TAG_PATTERN = /^[\w][\w.-]{0,127}$/;
+const DIGEST_PATTERN = /^[a-z0-9]+(?:[.+_-][a-z0-9]+)*:[a-zA-Z0-9=_-]+$/;
+
+/**
+ * Parses an image reference such as `quay.io/org/image:tag`, following the
+ * same defaults as container tools: the registry defaults to Docker Hub
+ * (with the `library/` namespace for single-component names) and the tag
+ * defaults to `latest` when there is no digest.
+ */
+export function parseImageReference(value: string): ImageReference {
+  let remainder = value.trim();
+  let digest: string | undefined;
+  const at = remainder.indexOf('@');
+  if (at >= 0) {
+    digest = remainder.slice(at + 1);
+    remainder = remainder.slice(0, at);
+    if (!DIGEST_PATTERN.test(digest)) {
+      throw new Error(
+        `Invalid digest '${digest}' in image reference '${value}'`,
+      );
+    }
+  }
+
+  let tag: string | undefined;
+  const lastColon = remainder.lastIndexOf(':');
+  if (lastColon > remainder.lastIndexOf('/')) {
+    tag = remainder.slice(lastColon + 1);
+    remainder = remainder.slice(0, lastColon);
+    if (!TAG_PATTERN.test(tag)) {
+      throw new Error(`Invalid tag '${tag}' in image reference '${value}'`);
+    }
+  }
+
+  let registry = DOCKER_HUB_REGISTRY;
+  let repository = remainder;
+  const firstSlash = remainder.indexOf('/');
+  if (firstSlash > 0) {
+    const candidate = remainder.slice(0, firstSlash);
+    if (
+      candidate.includes('.') ||
+      candidate.includes(':') ||
+      candidate === 'localhost'
+    ) {
+      registry = candidate;
+      repository = remainder.slice(firstSlash + 1);
+    }
+  }
+  if (registry === DOCKER_HUB_REGISTRY && !repository.includes('/')) {
+    repository = `library/${repository}`;
+  }
+  if (!REPOSITORY_PATTERN.test(repository)) {
+    throw new Error(
+      `Invalid repository '${repository}' in image reference '${value}'`,
+    );
+  }
+
+  return {
+    registry,
+    repository,
+    ...(tag || !digest ? { tag: tag ?? 'latest' } : {}),
+    ...(digest ? { digest } : {}),
+  };
+}
+
+export function formatImageReference(ref: ImageReference): string {
+  return `${ref.registry}/${ref.repository}${ref.tag ? `:${ref.tag}` : ''}${
+    ref.digest ? `@${ref.digest}` : ''
+  }`;
+}
@@ -0,0 +1,332 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import { createHash } from 'node:crypto';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+import os from 'node:os';
+import path from 'node:path';
+
+import { writeOciImageLayout } from './imageLayout';
+import { blobPath, readOciImageLayout } from './layout';
+import { RegistryClient, RegistryError } from './registry';
+
+type FakeRegistryOptions = {
+  /** Credentials required through the token authentication flow. */
+  credentials?: { username: string; password: string };
+  /** Number of manifest uploads answered with a server error. */
+  manifestFailures?: number;
+};
+
+/**
+ * Minimal in-memory stand-in of an OCI distribution registry.
+ */
+async function startFakeRegistry(options: FakeRegistryOptions = {}) {
+  const blobs = new Map<string, Buffer>();
+  const manifests = new Map<string, { data: Buffer; mediaType: string }>();
+  const uploads = new Map<string, Buffer>();
+  const requests: { method: string; path: string; range?: string }[] = [];
+  let manifestFailures = options.manifestFailures ?? 0;
+  let uploadCount = 0;
+
+  const server = http.createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) {
+      chunks.push(chunk);
+    }
+    const body = Buffer.concat(chunks);
+    const url = new URL(req.url!, 'http://registry');
+    const contentRange = req.headers['content-range'];
+    requests.push({
+      method: req.method!,
+      path: url.pathname,
+      ...(contentRange ? { range: contentRange } : {}),
+    });
+
+    if (url.pathname === '/token') {
+      const { username, password } = options.credentials!;
+      const expected = `Basic ${Buffer.from(`${username}:${password}`).toString(
+        'base64',
+      )}`;
+      if (req.headers.authorization !== expected) {
+        res.writeHead(401).end();
+        return;
+      }
+      res
+        .writeHead(200, { 'Content-Type': 'application/json' })
+        .end(JSON.stringify({ token: 'secret-token' }));
+      return;
+    }
+    if (
+      options.credentials &&
+      req.headers.authorization !== 'Bearer secret-token'
+    ) {
+      const { port } = server.address() as AddressInfo;
+      res
+        .writeHead(401, {
+          'WWW-Authenticate': `Bearer realm="http://localhost:${port}/token",service="fake",scope="repository:org/plugins:pull,push"`,
+        })
+        .end();
+      return;
+    }
+
+    const match = url.pathname.match(
+      /^\/v2\/org\/plugins\/(blobs\/uploads|blobs|manifests)\/?(.*)$/,
+    );
+    if (!match) {
+      res.writeHead(404).end();
+      return;
+    }
+    const [, kind, id] = match;
+    if (kind === 'blobs') {
+      const blob = blobs.get(id);
+      res.writeHead(blob ? 200 : 404).end(req.method === 'GET' ? blob : '');
+    } else if (kind === 'blobs/uploads' && req.method === 'POST') {
+      const uploadId = `upload-${++uploadCount}`;
+      uploads.set(uploadId, Buffer.alloc(0));
+      res
+        .writeHead(202, {
+          Location: `/v2/org/plugins/blobs/uploads/${uploadId}`,
+        })
+        .end();
+    } else if (kind === 'blobs/uploads' && req.method === 'PATCH') {
+      const current = uploads.get(id)!;
+      const [start] = (contentRange ?? '').split('-').map(Number);
+      if (start !== current.length) {
+        res.writeHead(416).end();
+        return;
+      }
+      uploads.set(id, Buffer.concat([current, body]));
+      res
+        .writeHead(202, { Location: `/v2/org/plugins/blobs/uploads/${id}` })
+        .end();
+    } else if (kind === 'blobs/uploads' && req.method === 'PUT') {
+      const data = Buffer.concat([uploads.get(id)!, body]);
+      const digest = `sha256:${createHash('sha256').update(data).digest('hex')}`;
+      if (digest !== url.searchParams.get('digest')) {
+        res.writeHead(400, { 'Content-Type': 'application/json' }).end(
+          JSON.stringify({
+            errors: [{ code: 'DIGEST_INVALID', message: 'digest mismatch' }],
+          }),
+        );
+        return;
+      }
+      blobs.set(digest, data);
+      res.writeHead(201).end();
+    } else if (kind === 'manifests' && req.method === 'PUT') {
+      if (manifestFailures > 0) {
+        manifestFailures--;
+        res.writeHead(503).end();
+        return;
+      }
+      const digest = `sha256:${createHash('sha256').update(body).digest('hex')}`;
+      manifests.set(id, {
+        data: body,
+        mediaType: req.headers['content-type']!,
+      });
+      res.writeHead(201, { 'Docker-Content-Digest': digest }).end();
+    } else if (kind === 'manifests' && req.method === 'GET') {
+      const manifest = manifests.get(id);
+      if (!manifest) {
+        res.writeHead(404).end();
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': manifest.mediaType });
+      res.end(manifest.data);
+    } else {
+      res.writeHead(405).end();
+    }
+  });
+
+  await new Promise<void>(resolve => server.listen(0, 'localhost', resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    registry: `localhost:${port}`,
+    blobs,
+    manifests,
+    requests,
+    close: () =>
+      new Promise<void>(resolve => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      }),
+  };
+}
+
+describe('RegistryClient', () => {
+  let workDir: string;
+  let layoutDir: string;
+  let fakeRegistry: Awaited<ReturnType<typeof startFakeRegistry>> | undefined;
+
+  beforeEach(async () => {
+    workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'registry-test-'));
+    const sourceDir = path.join(workDir, 'source');
+    await fs.outputFile(path.join(sourceDir, 'index.json'), '[]');
+    await fs.outputFile(
+      path.join(sourceDir, 'plugin', 'package.json'),
+      JSON.stringify({ name: 'plugin', description: 'x'.repeat(200) }),
+    );
+    layoutDir = path.join(workDir, 'layout');
+    await writeOciImageLayout({
+      sourceDir,
+      outputPath: layoutDir,
+      platform: { os: 'linux', architecture: 'amd64' },
+      refName: '1.0.0',
+    });
+  });
+
+  afterEach(async () => {
+    await fakeRegistry?.close();
+    fakeRegistry = undefined;
+    await fs.remove(workDir);
+  });
+
+  async function push(client: RegistryClient) {
+    const image = await readOciImageLayout(layoutDir, '1.0.0');
+    for (const blob of [image.manifest.config, ...image.manifest.layers]) {
+      await client.pushBlob(blob, blobPath(layoutDir, blob.digest));
+    }
+    const digest = await client.pushManifest(
+      '1.0.0',
+      image.manifestData,
+      image.descriptor.mediaType,
+    );
+    return { image, digest };
+  }
+
+  it('pushes blobs in chunks and the manifest', async () => {
+    fakeRegistry = await startFakeRegistry();
+    const client = new RegistryClient({
+      registry: fakeRegistry.registry,
+      repository: 'org/plugins',
+      plainHttp: true,
+      chunkSize: 64,
+    });
+
+    const { image, digest } = await push(client);
+
+    expect(digest).toBe(image.descriptor.digest);
+    const layer = image.manifest.layers[0];
+    expect(fakeRegistry.blobs.get(layer.digest)).toEqual(
+      await fs.readFile(blobPath(layoutDir, layer.digest)),
+    );
+    const ranges = fakeRegistry.requests
+      .filter(r => r.method === 'PATCH')
+      .map(r => r.range);
+    expect(ranges.length).toBe(
+      Math.ceil(image.manifest.config.size / 64) + Math.ceil(layer.size / 64),
+    );
+    expect(ranges[0]).toBe('0-63');
+
+    const fetched = await client.getManifest('1.0.0');
+    expect(fetched.data).toEqual(image.manifestData);
+    expect(fetched.digest).toBe(image.descriptor.digest);
+  });
+
+  it('skips the blobs that already exist', async () => {
+    fakeRegistry = await startFakeRegistry();
+    const client = new RegistryClient({
+      registry: fakeRegistry.registry,
+      repository: 'org/plugins',
+      plainHttp: true,
+    });
+    const { image } = await push(client);
+    const requestCount = fakeRegistry.requests.length;
+
+    await expect(
+      client.pushBlob(
+        image.manifest.config,
+        blobPath(layoutDir, image.manifest.config.digest),
+      ),
+    ).resolves.toBe(false);
+    expect(fakeRegistry.requests.slice(requestCount)).toEqual([
+      {
+        method: 'HEAD',
+        path: `/v2/org/plugins/blobs/${image.manifest.config.digest}`,
+      },
+    ]);
+  });
+
+  it('retries the manifest upload on server errors', async () => {
+    fakeRegistry = await startFakeRegistry({ manifestFailures: 2 });
+    const onRetry = jest.fn();
+    const client = new RegistryClient({
+      registry: fakeRegistry.registry,
+      repository: 'org/plugins',
+      plainHttp: true,
+      retryDelayMs: 1,
+      onRetry,
+    });
+
+    await push(client);
+
+    expect(onRetry.mock.calls).toEqual([
+      ['HTTP 503', 1],
+      ['HTTP 503', 2],
+    ]);
+    expect(fakeRegistry.manifests.has('1.0.0')).toBe(true);
+  });
+
+  it('gives up after the configured number of manifest retries', async () => {
+    fakeRegistry = await startFakeRegistry({ manifestFailures: 5 });
+    const client = new RegistryClient({
+      registry: fakeRegistry.registry,
+      repository: 'org/plugins',
+      plainHttp: true,
+      manifestRetries: 1,
+      retryDelayMs: 1,
+    });
+
+    await expect(push(client)).rejects.toThrow(
+      `Failed to push manifest 1.0.0 in ${fakeRegistry.registry}/org/plugins (HTTP 503)`,
+    );
+  });
+
+  it('authenticates with a registry token', async () => {
+    const credentials = { username: 'user', password: 'pass' };
+    fakeRegistry = await startFakeRegistry({ credentials });
+    const client = new RegistryClient({
+      registry: fakeRegistry.registry,
+      repository: 'org/plugins',
+      plainHttp: true,
+      credentials,
+    });
+
+    await push(client);
+
+    expect(fakeRegistry.manifests.has('1.0.0')).toBe(true);
+    expect(fakeRegistry.requests.filter(r => r.path === '/token')).toHaveLength(
+      1,
+    );
+  });
+
+  it('fails when the registry requires credentials', async () => {
+    fakeRegistry = await startFakeRegistry({
+      credentials: { username: 'user', password: 'pass' },
+    });
+    const client = new RegistryClient({
+      registry: fakeRegistry.registry,
+      repository: 'org/plugins',
+      plainHttp: true,
+    });
+
+    const error = await push(client).catch(e => e);
+    expect(error).toBeInstanceOf(RegistryError);
+    expect(error.status).toBe(401);
+  });
+});
@@ -0,0 +1,380 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import { createHash } from 'node:crypto';
+
+import { CustomError } from '../errors';
+import { RegistryCredentials } from './auth';
+import { DOCKER_HUB_REGISTRY } from './reference';
+import { Descriptor } from './types';
+
+const DEFAULT_CHUNK_SIZE = 5 * 1024 * 1024;
+const DEFAULT_MANIFEST_RETRIES = 3;
+const DEFAULT_RETRY_DELAY_MS = 1000;
+
+const MANIFEST_ACCEPT = [
+  'application/vnd.oci.image.manifest.v1+json',
+  'application/vnd.oci.image.index.v1+json',
+  'application/vnd.docker.distribution.manifest.v2+json',
+  'application/vnd.docker.distribution.manifest.list.v2+json',
+].join(', ');
+
+export class RegistryError extends CustomError {
+  readonly status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+export type RegistryClientOptions = {
+  /** Registry host, with an optional port. */
+  registry: string;
+  repository: string;
+  credentials?: RegistryCredentials;
+  /** Use HTTP instead of HTTPS, for local or insecure registries. */
+  plainHttp?: boolean;
+  /** Size of the chunks of the blob uploads, 5 MiB by default. */
+  chunkSize?: number;
+  /** Number of retries of a failed manifest upload, 3 by default. */
+  manifestRetries?: number;
+  /** Initial delay between manifest upload retries, doubled on each retry. */
+  retryDelayMs?: number;
+  /** Called before a manifest upload is retried. */
+  onRetry?: (reason: string, delayMs: number) => void;
+};
+
+export type FetchedManifest = {
+  mediaType: string;
+  digest: string;
+  data: Buffer;
+};
+
+type RequestOptions = {
+  headers?: Record<string, string>;
+  body?: Buffer;
+};
+
+/**
+ * Minimal client of the OCI distribution API
+ * (https://github.com/opencontainers/distribution-spec/blob/main/spec.md),
+ * covering what is needed to push and pull single-layer plugin images.
+ *
+ * Both the token (`Bearer`) and `Basic` authentication challenges are
+ * supported.
+ */
+export class RegistryClient {
+  private readonly baseUrl: string;
+  private readonly options: RegistryClientOptions;
+  private authorization: string | undefined;
+
+  constructor(options: RegistryClientOptions) {
+    this.options = options;
+    const host =
+      options.registry === DOCKER_HUB_REGISTRY
+        ? 'registry-1.docker.io'
+        : options.registry;
+    this.baseUrl = `${options.plainHttp ? 'http' : 'https'}://${host}/v2/${
+      options.repository
+    }`;
+  }
+
+  async hasBlob(digest: string): Promise<boolean> {
+    const response = await this.request(
+      'HEAD',
+      `${this.baseUrl}/blobs/${digest}`,
+    );
+    if (response.status === 404) {
+      return false;
+    }
+    await this.ensureOk(response, `check blob ${digest}`);
+    return true;
+  }
+
+  /**
+   * Uploads a blob stored in a local file, unless the registry already has
+   * it. The content is sent in chunks of `chunkSize` bytes.
+   *
+   * @returns `true` if the blob was uploaded, `false` if it already existed.
+   */
+  async pushBlob(descriptor: Descriptor, file: string): Promise<boolean> {
+    if (await this.hasBlob(descriptor.digest)) {
+      return false;
+    }
+
+    const started = await this.request(
+      'POST',
+      `${this.baseUrl}/blobs/uploads/`,
+      {
+        headers: { 'Content-Length': '0' },
+      },
+    );
+    await this.ensureOk(started, `start upload of blob ${descriptor.digest}`);
+    let location = this.uploadLocation(started);
+
+    const chunkSize = this.options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+    const handle = await fs.promises.open(file, 'r');
+    try {
+      let offset = 0;
+      while (offset < descriptor.size) {
+        const length = Math.min(chunkSize, descriptor.size - offset);
+        const chunk = Buffer.alloc(length);
+        const { bytesRead } = await handle.read(chunk, 0, length, offset);
+        if (bytesRead !== length) {
+          throw new Error(
+            `Unexpected end of file ${file}, expected ${descriptor.size} bytes`,
+          );
+        }
+        const response = await this.request('PATCH', location, {
+          headers: {
+            'Content-Type': 'application/octet-stream',
+            'Content-Range': `${offset}-${offset + length - 1}`,
+            'Content-Length': `${length}`,
+          },
+          body: chunk,
+        });
+        await this.ensureOk(
+          response,
+          `upload chunk ${offset}-${offset + length - 1} of blob ${
+            descriptor.digest
+          }`,
+        );
+        location = this.uploadLocation(response);
+        offset += length;
+      }
+    } finally {
+      await handle.close();
+    }
+
+    const completeUrl = new URL(location);
+    completeUrl.searchParams.set('digest', descriptor.digest);
+    const completed = await this.request('PUT', completeUrl.toString(), {
+      headers: { 'Content-Length': '0' },
+    });
+    await this.ensureOk(
+      completed,
+      `complete upload of blob ${descriptor.digest}`,
+    );
+    return true;
+  }
+
+  /**
+   * Uploads a manifest under the given tag or digest, retrying with an
+   * exponential backoff when the registry answers with a server error or
+   * is not reachable.
+   *
+   * @returns the digest of the manifest.
+   */
+  async pushManifest(
+    reference: string,
+    data: Buffer,
+    mediaType: string,
+  ): Promise<string> {
+    const retries = this.options.manifestRetries ?? DEFAULT_MANIFEST_RETRIES;
+    const retryDelay = this.options.retryDelayMs ?? DEFAULT_RETRY_DELAY_MS;
+    for (let attempt = 0; ; attempt++) {
+      let retryReason: string;
+      try {
+        const response = await this.request(
+          'PUT',
+          `${this.baseUrl}/manifests/${reference}`,
+          {
+            headers: {
+              'Content-Type': mediaType,
+              'Content-Length': `${data.length}`,
+            },
+            body: data,
+          },
+        );
+        if (
+          attempt >= retries ||
+          (response.status < 500 && response.status !== 429)
+        ) {
+          await this.ensureOk(response, `push manifest ${reference}`);
+          return (
+            response.headers.get('Docker-Content-Digest') ??
+            `sha256:${createHash('sha256').update(data).digest('hex')}`
+          );
+        }
+        await response.arrayBuffer().catch(() => undefined);
+        retryReason = `HTTP ${response.status}`;
+      } catch (error) {
+        if (error instanceof RegistryError || attempt >= retries) {
+          throw error;
+        }
+        retryReason = `${error}`;
+      }
+      const delay = retryDelay * 2 ** attempt;
+      this.options.onRetry?.(retryReason, delay);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  async getManifest(reference: string): Promise<FetchedManifest> {
+    const response = await this.request(
+      'GET',
+      `${this.baseUrl}/manifests/${reference}`,
+      { headers: { Accept: MANIFEST_ACCEPT } },
+    );
+    await this.ensureOk(response, `fetch manifest ${reference}`);
+    const data = Buffer.from(await response.arrayBuffer());
+    return {
+      mediaType: response.headers.get('Content-Type') ?? '',
+      digest:
+        response.headers.get('Docker-Content-Digest') ??
+        `sha256:${createHash('sha256').update(data).digest('hex')}`,
+      data,
+    };
+  }
+
+  async getBlob(digest: string): Promise<Buffer> {
+    const response = await this.request(
+      'GET',
+      `${this.baseUrl}/blobs/${digest}`,
+    );
+    await this.ensureOk(response, `fetch blob ${digest}`);
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  private uploadLocation(response: Response): string {
+    const location = response.headers.get('Location');
+    if (!location) {
+      throw new RegistryError(
+        `The registry did not return an upload location (HTTP ${response.status})`,
+        response.status,
+      );
+    }
+    return new URL(location, this.baseUrl).toString();
+  }
+
+  private async request(
+    method: string,
+    url: string,
+    options: RequestOptions = {},
+  ): Promise<Response> {
+    const send = () =>
+      fetch(url, {
+        method,
+        headers: {
+          ...options.headers,
+          ...(this.authorization ? { Authorization: this.authorization } : {}),
+        },
+        body: options.body,
+      });
+
+    const response = await send();
+    if (response.status !== 401) {
+      return response;
+    }
+    const challenge = response.headers.get('WWW-Authenticate');
+    if (!challenge || !(await this.authenticate(challenge))) {
+      return response;
+    }
+    await response.arrayBuffer();
+    return send();
+  }
+
+  /**
+   * Answers a `WWW-Authenticate` challenge.
+   *
+   * @returns `false` if the challenge cannot be answered.
+   */
+  private async authenticate(challenge: string): Promise<boolean> {
+    const { credentials } = this.options;
+    const [scheme, ...rest] = challenge.trim().split(' ');
+    const basic = credentials
+      ? `Basic ${Buffer.from(
+          `${credentials.username}:${credentials.password}`,
+        ).toString('base64')}`
+      : undefined;
+
+    if (scheme.toLowerCase() === 'basic') {
+      if (!basic || this.authorization === basic) {
+        return false;
+      }
+      this.authorization = basic;
+      return true;
+    }
+    if (scheme.toLowerCase() !== 'bearer') {
+      return false;
+    }
+
+    const params = parseChallengeParameters(rest.join(' '));
+    if (!params.realm) {
+      return false;
+    }
+    const tokenUrl = new URL(params.realm);
+    if (params.service) {
+      tokenUrl.searchParams.set('service', params.service);
+    }
+    tokenUrl.searchParams.set(
+      'scope',
+      params.scope ?? `repository:${this.options.repository}:pull,push`,
+    );
+    const response = await fetch(tokenUrl, {
+      headers: basic ? { Authorization: basic } : {},
+    });
+    await this.ensureOk(response, `get a token from ${params.realm}`);
+    const body = (await response.json()) as {
+      token?: string;
+      access_token?: string;
+    };
+    const token = body.token ?? body.access_token;
+    if (!token || this.authorization === `Bearer ${token}`) {
+      return false;
+    }
+    this.authorization = `Bearer ${token}`;
+    return true;
+  }
+
+  private async ensureOk(response: Response, action: string): Promise<void> {
+    if (response.ok) {
+      return;
+    }
+    let details = '';
+    if (response.status === 401 || response.status === 403) {
+      details = this.options.credentials
+        ? ', check the credentials in the registry authentication file'
+        : ', no credentials were found for this registry in the registry authentication files';
+    } else {
+      const text = await response.text().catch(() => '');
+      try {
+        const errors: { code?: string; message?: string }[] =
+          JSON.parse(text).errors ?? [];
+        details = errors.length
+          ? `: ${errors.map(e => `${e.code}: ${e.message}`).join(', ')}`
+          : '';
+      } catch {
+        details = text ? `: ${text}` : '';
+      }
+    }
+    throw new RegistryError(
+      `Failed to ${action} in ${this.options.registry}/${this.options.repository} (HTTP ${response.status})${details}`,
+      response.status,
+    );
+  }
+}
+
+function parseChallengeParameters(value: string): Record<string, string> {
+  const params: Record<string, string> = {};
+  for (const match of value.matchAll(/(\w+)="([^"]*)"/g)) {
+    params[match[1]] = match[2];
+  }
+  return params;
+}
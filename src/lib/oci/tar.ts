@@ -0,0 +1,407 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import fs from 'fs-extra';
+
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+
+const BLOCK_SIZE = 512;
+
+// Largest size that fits in the 11 octal digits of a ustar size field.
+const MAX_ENTRY_SIZE = 0o77777777777;
+
+export type TarEntryType = 'file' | 'directory' | 'symlink';
+
+export type TarEntry = {
+  /** POSIX path of the entry inside the archive, without a leading `./`. */
+  path: string;
+  type: TarEntryType;
+  mode: number;
+  size: number;
+  /** Symlink target, only set for `symlink` entries. */
+  linkTarget?: string;
+};
+
+/**
+ * Creates a deterministic ustar archive of a directory tree as a stream of
+ * buffers. Entries are sorted by path, owned by root and have a zero mtime,
+ * so that archiving the same content twice produces the same bytes (and thus
+ * the same layer digest).
+ *
+ * Paths that do not fit in the ustar `name`/`prefix` fields are written with
+ * a PAX extended header.
+ */
+export async function* packDirectory(
+  directory: string,
+): AsyncGenerator<Buffer> {
+  for (const entry of await listEntries(directory)) {
+    yield* entryHeaders(entry);
+    if (entry.type === 'file') {
+      let written = 0;
+      for await (const chunk of fs.createReadStream(
+        path.join(directory, ...entry.path.split('/')),
+      )) {
+        written += chunk.length;
+        yield chunk as Buffer;
+      }
+      if (written !== entry.size) {
+        throw new Error(
+          `File '${entry.path}' changed size while being archived`,
+        );
+      }
+      yield padding(entry.size);
+    }
+  }
+  yield Buffer.alloc(BLOCK_SIZE * 2);
+}
+
+/**
+ * Writes a directory tree to a tar file on disk.
+ */
+export async function writeTarFile(
+  directory: string,
+  tarFile: string,
+): Promise<void> {
+  await pipeline(
+    Readable.from(packDirectory(directory)),
+    fs.createWriteStream(tarFile),
+  );
+}
+
+/**
+ * Reads fixed-size chunks out of a stream of buffers of arbitrary sizes.
+ */
+class ChunkReader {
+  private pending: Buffer[] = [];
+  private pendingSize = 0;
+  private done = false;
+
+  constructor(private readonly iterator: AsyncIterator<Buffer>) {}
+
+  /** Returns `undefined` at the end of the stream. */
+  async read(size: number): Promise<Buffer | undefined> {
+    await this.fill(size);
+    if (this.pendingSize === 0) {
+      return undefined;
+    }
+    if (this.pendingSize < size) {
+      throw new Error('Unexpected end of tar archive');
+    }
+    return this.take(size);
+  }
+
+  async readExactly(size: number): Promise<Buffer> {
+    return size === 0 ? Buffer.alloc(0) : (await this.read(size))!;
+  }
+
+  async skip(size: number): Promise<void> {
+    let remaining = size;
+    while (remaining > 0) {
+      const length = Math.min(remaining, 1024 * 1024);
+      await this.readExactly(length);
+      remaining -= length;
+    }
+  }
+
+  private async fill(size: number) {
+    while (this.pendingSize < size && !this.done) {
+      const next = await this.iterator.next();
+      if (next.done) {
+        this.done = true;
+      } else {
+        this.pending.push(next.value);
+        this.pendingSize += next.value.length;
+      }
+    }
+  }
+
+  private take(size: number): Buffer {
+    const all =
+      this.pending.length === 1 ? this.pending[0] : Buffer.concat(this.pending);
+    const chunk = all.subarray(0, size);
+    const rest = all.subarray(size);
+    this.pending = rest.length > 0 ? [rest] : [];
+    this.pendingSize = rest.length;
+    return chunk;
+  }
+}
+
+/**
+ * Reads the regular files accepted by `filter` from a tar stream, such as a
+ * (decompressed) image layer or an OCI image layout archive. Other entries
+ * are skipped without being buffered.
+ */
+export async function readTarFiles(
+  source: AsyncIterable<Buffer>,
+  filter: (entryPath: string) => boolean,
+): Promise<Map<string, Buffer>> {
+  const files = new Map<string, Buffer>();
+  const reader = new ChunkReader(source[Symbol.asyncIterator]());
+  let paxPath: string | undefined;
+  for (;;) {
+    const block = await reader.read(BLOCK_SIZE);
+    if (!block || block.every(byte => byte === 0)) {
+      break;
+    }
+    const size = parseInt(readField(block, 124, 12).trim() || '0', 8);
+    const typeflag = readField(block, 156, 1);
+    const name = readField(block, 0, 100);
+    const prefix = readField(block, 345, 155);
+    if (typeflag === 'x') {
+      const body = await reader.readExactly(size);
+      await reader.skip(padding(size).length);
+      paxPath = parsePaxRecords(body).path ?? paxPath;
+      continue;
+    }
+    const entryPath = (
+      paxPath ?? (prefix ? `${prefix}/${name}` : name)
+    ).replace(/^\.\//, '');
+    paxPath = undefined;
+    if ((typeflag === '0' || typeflag === '') && filter(entryPath)) {
+      files.set(entryPath, await reader.readExactly(size));
+    } else {
+      await reader.skip(size);
+    }
+    await reader.skip(padding(size).length);
+  }
+  return files;
+}
+
+function readField(block: Buffer, offset: number, length: number): string {
+  const field = block.subarray(offset, offset + length);
+  const end = field.indexOf(0);
+  return field.subarray(0, end === -1 ? length : end).toString('utf8');
+}
+
+function parsePaxRecords(body: Buffer): Record<string, string> {
+  const records: Record<string, string> = {};
+  let offset = 0;
+  while (offset < body.length) {
+    const space = body.indexOf(0x20, offset);
+    const length = parseInt(body.subarray(offset, space).toString('ascii'), 10);
+    if (space === -1 || !(length > 0)) {
+      break;
+    }
+    const record = body
+      .subarray(space + 1, offset + length - 1)
+      .toString('utf8');
+    const separator = record.indexOf('=');
+    records[record.slice(0, separator)] = record.slice(separator + 1);
+    offset += length;
+  }
+  return records;
+}
+
+async function listEntries(directory: string): Promise<TarEntry[]> {
+  const entries: TarEntry[] = [];
+
+  async function walk(relativeDir: string) {
+    const dirents = await fs.readdir(path.join(directory, relativeDir), {
+      withFileTypes: true,
+    });
+    dirents.sort((a, b) => (a.name < b.name ? -1 : 1));
+    for (const dirent of dirents) {
+      const relativePath = relativeDir
+        ? `${relativeDir}/${dirent.name}`
+        : dirent.name;
+      const absolutePath = path.join(directory, ...relativePath.split('/'));
+      const stats = await fs.lstat(absolutePath);
+      if (stats.isSymbolicLink()) {
+        entries.push({
+          path: relativePath,
+          type: 'symlink',
+          mode: 0o777,
+          size: 0,
+          linkTarget: await fs.readlink(absolutePath),
+        });
+      } else if (stats.isDirectory()) {
+        entries.push({
+          path: `${relativePath}/`,
+          type: 'directory',
+          mode: 0o755,
+          size: 0,
+        });
+        await walk(relativePath);
+      } else if (stats.isFile()) {
+        if (stats.size > MAX_ENTRY_SIZE) {
+          throw new Error(
+            `File '${relativePath}' is too large to be archived (${stats.size} bytes)`,
+          );
+        }
+        entries.push({
+          path: relativePath,
+          type: 'file',
+          // Only keep the executable bit, like container builders do.
+          mode: stats.mode & 0o111 ? 0o755 : 0o644,
+          size: stats.size,
+        });
+      }
+    }
+  }
+
+  await walk('');
+  return entries;
+}
+
+function* entryHeaders(entry: TarEntry): Generator<Buffer> {
+  const split = splitPath(entry.path);
+  const linkTarget = entry.linkTarget ?? '';
+  const needsPax =
+    !split ||
+    Buffer.byteLength(linkTarget) > 100 ||
+    !isAscii(entry.path) ||
+    !isAscii(linkTarget);
+
+  if (needsPax) {
+    const records = [paxRecord('path', entry.path)];
+    if (entry.linkTarget !== undefined) {
+      records.push(paxRecord('linkpath', entry.linkTarget));
+    }
+    const body = Buffer.concat(records);
+    yield header({
+      name: `PaxHeaders/${asciiTail(entry.path, 80)}`,
+      prefix: '',
+      mode: 0o644,
+      size: body.length,
+      typeflag: 'x',
+      linkname: '',
+    });
+    yield body;
+    yield padding(body.length);
+  }
+
+  yield header({
+    name: split ? split.name : asciiTail(entry.path, 100),
+    prefix: split ? split.prefix : '',
+    mode: entry.mode,
+    size: entry.type === 'file' ? entry.size : 0,
+    typeflag: typeflagOf(entry.type),
+    linkname: needsPax ? asciiTail(linkTarget, 100) : linkTarget,
+  });
+}
+
+function typeflagOf(type: TarEntryType): string {
+  switch (type) {
+    case 'directory':
+      return '5';
+    case 'symlink':
+      return '2';
+    default:
+      return '0';
+  }
+}
+
+function header(fields: {
+  name: string;
+  prefix: string;
+  mode: number;
+  size: number;
+  typeflag: string;
+  linkname: string;
+}): Buffer {
+  const block = Buffer.alloc(BLOCK_SIZE);
+  block.write(fields.name, 0, 100, 'utf8');
+  writeOctal(block, fields.mode, 100, 8);
+  writeOctal(block, 0, 108, 8); // uid
+  writeOctal(block, 0, 116, 8); // gid
+  writeOctal(block, fields.size, 124, 12);
+  writeOctal(block, 0, 136, 12); // mtime
+  block.fill(' ', 148, 156); // checksum placeholder
+  block.write(fields.typeflag, 156, 1, 'ascii');
+  block.write(fields.linkname, 157, 100, 'utf8');
+  block.write('ustar\u000000', 257, 8, 'ascii');
+  block.write(fields.prefix, 345, 155, 'utf8');
+
+  let checksum = 0;
+  for (const byte of block) {
+    checksum += byte;
+  }
+  block.write(`${checksum.toString(8).padStart(6, '0')}\u0000 `, 148, 8);
+  return block;
+}
+
+function writeOctal(
+  block: Buffer,
+  value: number,
+  offset: number,
+  length: number,
+) {
+  block.write(
+    `${value.toString(8).padStart(length - 1, '0')}\u0000`,
+    offset,
+    length,
+    'ascii',
+  );
+}
+
+function padding(size: number): Buffer {
+  const remainder = size % BLOCK_SIZE;
+  return Buffer.alloc(remainder === 0 ? 0 : BLOCK_SIZE - remainder);
+}
+
+/**
+ * Splits a path into the ustar `prefix` and `name` fields, or returns
+ * `undefined` when it cannot be represented without a PAX header.
+ */
+function splitPath(
+  entryPath: string,
+): { prefix: string; name: string } | undefined {
+  if (Buffer.byteLength(entryPath) <= 100) {
+    return { prefix: '', name: entryPath };
+  }
+  // Directories keep their trailing slash in the name part.
+  const searchFrom = entryPath.endsWith('/')
+    ? entryPath.length - 2
+    : entryPath.length - 1;
+  for (
+    let index = entryPath.lastIndexOf('/', searchFrom);
+    index > 0;
+    index = entryPath.lastIndexOf('/', index - 1)
+  ) {
+    const prefix = entryPath.slice(0, index);
+    const name = entryPath.slice(index + 1);
+    if (Buffer.byteLength(prefix) > 155) {
+      continue;
+    }
+    if (Buffer.byteLength(name) > 100) {
+      return undefined;
+    }
+    return { prefix, name };
+  }
+  return undefined;
+}
+
+function paxRecord(key: string, value: string): Buffer {
+  const content = ` ${key}=${value}\n`;
+  const contentLength = Buffer.byteLength(content);
+  // The length prefix counts its own digits.
+  let length = contentLength + String(contentLength).length;
+  if (String(length).length !== String(contentLength).length) {
+    length = contentLength + String(length).length;
+  }
+  return Buffer.from(`${length}${content}`, 'utf8');
+}
+
+function isAscii(value: string): boolean {
+  return /^[\x20-\x7e]*$/.test(value);
+}
+
+function asciiTail(value: string, maxLength: number): string {
+  const ascii = value.replace(/[^\x20-\x7e]/g, '_');
+  return ascii.length > maxLength ? ascii.slice(-maxLength) : ascii;
+}
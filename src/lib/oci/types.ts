@@ -0,0 +1,76 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+/**
+ * Subset of the OCI image specification types used by the CLI.
+ * See https://github.com/opencontainers/image-spec
+ */
+
+export const MEDIA_TYPE_IMAGE_INDEX = 'application/vnd.oci.image.index.v1+json';
+export const MEDIA_TYPE_IMAGE_MANIFEST =
+  'application/vnd.oci.image.manifest.v1+json';
+export const MEDIA_TYPE_IMAGE_CONFIG =
+  'application/vnd.oci.image.config.v1+json';
+export const MEDIA_TYPE_IMAGE_LAYER_GZIP =
+  'application/vnd.oci.image.layer.v1.tar+gzip';
+
+export const REF_NAME_ANNOTATION = 'org.opencontainers.image.ref.name';
+
+/**
+ * Manifest annotation holding the base64-encoded plugin registry metadata
+ * (the `index.json` of the image) of a dynamic plugins image.
+ */
+export const DYNAMIC_PACKAGES_ANNOTATION = 'io.backstage.dynamic-packages';
+
+export type Descriptor = {
+  mediaType: string;
+  digest: string;
+  size: number;
+  annotations?: Record<string, string>;
+  platform?: Platform;
+};
+
+export type Platform = {
+  os: string;
+  architecture: string;
+  variant?: string;
+};
+
+export type ImageIndex = {
+  schemaVersion: 2;
+  mediaType: typeof MEDIA_TYPE_IMAGE_INDEX;
+  manifests: Descriptor[];
+  annotations?: Record<string, string>;
+};
+
+export type ImageManifest = {
+  schemaVersion: 2;
+  mediaType: typeof MEDIA_TYPE_IMAGE_MANIFEST;
+  config: Descriptor;
+  layers: Descriptor[];
+  annotations?: Record<string, string>;
+};
+
+export type ImageConfig = Platform & {
+  config: {
+    Labels?: Record<string, string>;
+  };
+  rootfs: {
+    type: 'layers';
+    diff_ids: string[];
+  };
+  history?: { created_by?: string }[];
+};
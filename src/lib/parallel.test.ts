@@ -19,6 +19,7 @@ import os from 'os';
 import {
   getEnvironmentParallelism,
   parseParallelismOption,
+  runParallelWorkers,
   runWorkerThreads,
 } from './parallel';
 
@@ -102,3 +103,45 @@ describe('runWorkerThreads', () => {
     expect(messages.sort()).toEqual(['a', 'a', 'b', 'b', 'c', 'c']);
   });
 });
+
+describe('runParallelWorkers', () => {
+  it('runs all items with limited concurrency', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    const done = new Array<number>();
+
+    await runParallelWorkers({
+      parallelismSetting: 2,
+      items: [1, 2, 3, 4, 5],
+      worker: async item => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        done.push(item);
+        running--;
+      },
+    });
+
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('reads the parallelism from the environment by default', async () => {
+    process.env.BACKSTAGE_CLI_BUILD_PARALLEL = 'false';
+    let running = 0;
+    let maxRunning = 0;
+
+    await runParallelWorkers({
+      items: [1, 2, 3],
+      worker: async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await new Promise(resolve => setTimeout(resolve, 10));
+        running--;
+      },
+    });
+
+    delete process.env.BACKSTAGE_CLI_BUILD_PARALLEL;
+    expect(maxRunning).toBe(1);
+  });
+});
@@ -56,6 +56,47 @@ export function getEnvironmentParallelism() {
   return parseParallelismOption(process.env[PARALLEL_ENV_VAR]);
 }
 
+type ParallelWorkerOptions<TItem> = {
+  /**
+   * Decides the number of parallel workers by multiplying
+   * this with the configured parallelism. Defaults to 1.
+   */
+  parallelismFactor?: number;
+  /** Overrides the parallelism read from the environment. */
+  parallelismSetting?: ParallelismOption;
+  items: Iterable<TItem>;
+  worker: (item: TItem) => Promise<void>;
+};
+
+/**
+ * Runs the worker on every item, with up to the configured parallelism of
+ * workers running at the same time. Items are picked in order.
+ */
+export async function runParallelWorkers<TItem>(
+  options: ParallelWorkerOptions<TItem>,
+) {
+  const { parallelismFactor = 1, parallelismSetting, items, worker } = options;
+  const parallelism = parallelismSetting
+    ? parseParallelismOption(parallelismSetting)
+    : getEnvironmentParallelism();
+
+  const sharedIterator = items[Symbol.iterator]();
+  const sharedIterable = {
+    [Symbol.iterator]: () => sharedIterator,
+  };
+
+  const workerCount = Math.max(Math.floor(parallelismFactor * parallelism), 1);
+  return Promise.all(
+    Array(workerCount)
+      .fill(0)
+      .map(async () => {
+        for (const value of sharedIterable) {
+          await worker(value);
+        }
+      }),
+  );
+}
+
 type WorkerThreadMessage =
   | {
       type: 'done';
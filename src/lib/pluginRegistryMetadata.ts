@@ -0,0 +1,121 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { PackageJson } from 'type-fest';
+
+/**
+ * Metadata of a dynamic plugin package, as stored in the `index.json` file
+ * and the `io.backstage.dynamic-packages` annotation of a plugin image.
+ */
+export type PluginRegistryMetadataEntry = Pick<
+  PackageJson,
+  | 'name'
+  | 'version'
+  | 'description'
+  | 'homepage'
+  | 'repository'
+  | 'license'
+  | 'maintainers'
+  | 'author'
+  | 'bugs'
+  | 'keywords'
+> & {
+  backstage?: {
+    role?: string;
+    pluginId?: string;
+    pluginPackages?: string[];
+    'supported-versions'?: string;
+    features?: Record<string, string>;
+    [key: string]: unknown;
+  };
+};
+
+/**
+ * One single-key object per plugin, keyed by the name of the plugin
+ * directory inside the image.
+ */
+export type PluginRegistryMetadata = Record<
+  string,
+  PluginRegistryMetadataEntry
+>[];
+
+export function pluginRegistryMetadataEntry(
+  packageJson: PackageJson,
+): PluginRegistryMetadataEntry {
+  const {
+    name,
+    version,
+    description,
+    backstage,
+    homepage,
+    repository,
+    license,
+    maintainers,
+    author,
+    bugs,
+    keywords,
+  } = packageJson;
+  return {
+    name,
+    version,
+    description,
+    backstage: backstage as PluginRegistryMetadataEntry['backstage'],
+    homepage,
+    repository,
+    license,
+    maintainers,
+    author,
+    bugs,
+    keywords,
+  };
+}
+
+export function encodePluginRegistryMetadata(
+  metadata: PluginRegistryMetadata,
+): string {
+  return Buffer.from(JSON.stringify(metadata)).toString('base64');
+}
+
+export function decodePluginRegistryMetadata(
+  annotation: string,
+): PluginRegistryMetadata {
+  let metadata: unknown;
+  try {
+    metadata = JSON.parse(Buffer.from(annotation, 'base64').toString('utf8'));
+  } catch (error) {
+    throw new Error(`Invalid plugin registry metadata: ${error}`);
+  }
+  return validatePluginRegistryMetadata(metadata);
+}
+
+export function validatePluginRegistryMetadata(
+  metadata: unknown,
+): PluginRegistryMetadata {
+  if (
+    !Array.isArray(metadata) ||
+    !metadata.every(
+      item =>
+        typeof item === 'object' &&
+        item !== null &&
+        Object.keys(item).length === 1,
+    )
+  ) {
+    throw new Error(
+      'Invalid plugin registry metadata, expected an array of single-key objects',
+    );
+  }
+  return metadata;
+}
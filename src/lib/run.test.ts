@@ -0,0 +1,32 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { ExitCodeError } from './errors';
+import { run } from './run';
+
+describe('run', () => {
+  it('collects the output written right before the exit of the command', async () => {
+    const output: string[] = [];
+    // the output of the background process is only read after the shell exits
+    await expect(
+      run('(sleep 0.2; echo "export failed" >&2) & echo started; exit 3', [], {
+        stdoutLogFunc: data => output.push(data.toString()),
+        stderrLogFunc: data => output.push(data.toString()),
+      }),
+    ).rejects.toThrow(ExitCodeError);
+    expect(output.join('')).toBe('started\nexport failed\n');
+  });
+});
@@ -72,7 +72,11 @@ export async function run(
     child.stderr.on('data', stderrLogFunc);
   }
 
-  await waitForExit(child, name);
+  if (stdoutLogFunc || stderrLogFunc) {
+    await waitForClose(child, name);
+  } else {
+    await waitForExit(child, name);
+  }
 }
 
 export async function runPlain(cmd: string, ...args: string[]) {
@@ -113,3 +117,23 @@ export async function waitForExit(
     });
   });
 }
+
+/**
+ * Like waitForExit, but also waits for the piped stdio streams of the child
+ * to be closed: the last output of a child can still be read after its exit.
+ */
+export async function waitForClose(
+  child: ChildProcess,
+  name?: string,
+): Promise<void> {
+  await new Promise<void>((resolve, reject) => {
+    child.once('error', error => reject(error));
+    child.once('close', code => {
+      if (code) {
+        reject(new ExitCodeError(code, name));
+      } else {
+        resolve();
+      }
+    });
+  });
+}
@@ -2,6 +2,7 @@ import { mergeConfigSchemas } from '@backstage/config-loader';
 import { assertError } from '@backstage/errors';
 import { JsonObject } from '@backstage/types';
 
+import chalk from 'chalk';
 import fs from 'fs-extra';
 
 import { EOL } from 'os';
@@ -12,6 +13,13 @@ import {
   sep,
 } from 'path';
 
+import { Task } from '../tasks';
+import {
+  ConfigSchemaConflictMode,
+  findConfigSchemaConflicts,
+  formatConfigSchemaConflicts,
+} from './conflicts';
+
 type ConfigSchemaPackageEntry = {
   /**
    * The configuration schema itself.
@@ -21,6 +29,10 @@ type ConfigSchemaPackageEntry = {
    * The relative path that the configuration schema was discovered at.
    */
   path: string;
+  /**
+   * The name and version of the package that provides the schema.
+   */
+  package: string;
 };
 
 type Item = {
@@ -75,6 +87,7 @@ async function collectConfigSchemas(
 ): Promise<ConfigSchemaPackageEntry[]> {
   const schemas = new Array<ConfigSchemaPackageEntry>();
   const tsSchemaPaths = new Array<string>();
+  const tsSchemaPackages = new Array<string>();
   const visitedPackageVersions = new Map<string, Set<string>>(); // pkgName: [versions...]
 
   const currentDir = await fs.realpath(process.cwd());
@@ -127,6 +140,7 @@ async function collectConfigSchemas(
     ];
 
     const hasSchema = 'configSchema' in pkg;
+    const packageId = `${pkg.name}@${pkg.version}`;
     if (hasSchema) {
       if (typeof pkg.configSchema === 'string') {
         const isJson = pkg.configSchema.endsWith('.json');
@@ -143,18 +157,21 @@ async function collectConfigSchemas(
               resolvePath(dirname(pkgPath), pkg.configSchema),
             ),
           );
+          tsSchemaPackages.push(packageId);
         } else {
           const path = resolvePath(dirname(pkgPath), pkg.configSchema);
           const value = await fs.readJson(path);
           schemas.push({
             value,
             path: relativePath(currentDir, path),
+            package: packageId,
           });
         }
       } else {
         schemas.push({
           value: pkg.configSchema,
           path: relativePath(currentDir, pkgPath),
+          package: packageId,
         });
       }
     }
@@ -171,7 +188,9 @@ async function collectConfigSchemas(
     packagePath: `${currentDir}/package.json`,
   });
 
-  const tsSchemas = await compileTsSchemas(tsSchemaPaths);
+  const tsSchemas = (await compileTsSchemas(tsSchemaPaths)).map(
+    (schema, index) => ({ ...schema, package: tsSchemaPackages[index] }),
+  );
 
   return schemas.concat(tsSchemas);
 }
@@ -260,10 +279,26 @@ async function compileTsSchemas(paths: string[]) {
 /**
  * Collect JSON schema for given plugin package (without core Backstage schema)
  * @param packageName Name of the package for which it is needed to collect schema
+ * @param options.conflictCheck What to do when schemas define the same key with different types or visibilities, `warn` by default
  * @returns JSON Schema object
  */
-export const getConfigSchema = async (packageName: string) => {
+export const getConfigSchema = async (
+  packageName: string,
+  options: { conflictCheck?: ConfigSchemaConflictMode } = {},
+) => {
+  const { conflictCheck = 'warn' } = options;
   const schemas = await collectConfigSchemas(packageName);
 
+  if (conflictCheck !== 'off') {
+    const conflicts = findConfigSchemaConflicts(schemas);
+    if (conflicts.length > 0) {
+      const message = formatConfigSchemaConflicts(conflicts);
+      if (conflictCheck === 'fail') {
+        throw new Error(message);
+      }
+      Task.log(chalk.yellow(message));
+    }
+  }
+
   return mergeConfigSchemas((schemas as JsonObject[]).map(_ => _.value as any));
 };
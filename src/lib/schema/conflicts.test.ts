@@ -0,0 +1,138 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import {
+  findConfigSchemaConflicts,
+  formatConfigSchemaConflicts,
+} from './conflicts';
+
+describe('findConfigSchemaConflicts', () => {
+  const pluginSchema = {
+    package: '@example/plugin-example@1.0.0',
+    value: {
+      type: 'object',
+      properties: {
+        example: {
+          type: 'object',
+          properties: {
+            baseUrl: { type: 'string', visibility: 'frontend' },
+            token: { type: 'string', visibility: 'frontend' },
+            timeout: { type: 'number' },
+          },
+        },
+      },
+    },
+  };
+
+  it('finds the keys defined with different types or visibilities', () => {
+    const conflicts = findConfigSchemaConflicts([
+      pluginSchema,
+      {
+        package: '@example/example-client@2.0.0',
+        value: {
+          type: 'object',
+          properties: {
+            example: {
+              type: 'object',
+              properties: {
+                baseUrl: { type: 'string', visibility: 'frontend' },
+                token: { type: 'string' },
+                timeout: { type: ['string', 'number'] },
+              },
+            },
+          },
+        },
+      },
+    ]);
+
+    expect(conflicts).toEqual([
+      {
+        path: 'example.token',
+        kind: 'visibility',
+        definitions: [
+          { package: '@example/plugin-example@1.0.0', value: 'frontend' },
+          { package: '@example/example-client@2.0.0', value: 'backend' },
+        ],
+      },
+      {
+        path: 'example.timeout',
+        kind: 'type',
+        definitions: [
+          { package: '@example/plugin-example@1.0.0', value: 'number' },
+          {
+            package: '@example/example-client@2.0.0',
+            value: 'number | string',
+          },
+        ],
+      },
+    ]);
+    expect(formatConfigSchemaConflicts(conflicts)).toContain(
+      `: visibility 'frontend' in @example/plugin-example@1.0.0, 'backend' in @example/example-client@2.0.0`,
+    );
+  });
+
+  it('applies the deep visibility to the nested keys', () => {
+    expect(
+      findConfigSchemaConflicts([
+        pluginSchema,
+        {
+          package: '@example/example-common@1.0.0',
+          value: {
+            type: 'object',
+            properties: {
+              example: {
+                type: 'object',
+                deepVisibility: 'frontend',
+                properties: {
+                  baseUrl: { type: 'string' },
+                  token: { type: 'string' },
+                  items: {
+                    type: 'array',
+                    items: { type: 'string', visibility: 'secret' },
+                  },
+                },
+              },
+            },
+          },
+        },
+      ]),
+    ).toEqual([
+      {
+        path: 'example',
+        kind: 'visibility',
+        definitions: [
+          { package: '@example/plugin-example@1.0.0', value: 'backend' },
+          { package: '@example/example-common@1.0.0', value: 'frontend' },
+        ],
+      },
+    ]);
+  });
+
+  it('ignores keys defined by a single package', () => {
+    expect(
+      findConfigSchemaConflicts([
+        pluginSchema,
+        {
+          package: '@example/other@1.0.0',
+          value: {
+            type: 'object',
+            properties: { other: { type: 'string', visibility: 'secret' } },
+          },
+        },
+      ]),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,171 @@
+/*
+ * Copyright 2026 The Backstage Authors
+ *
+ * Licensed under the Apache License, Version 2.0 (the "License");
+ * you may not use this file except in compliance with the License.
+ * You may obtain a copy of the License at
+ *
+ *     http://www.apache.org/licenses/LICENSE-2.0
+ *
+ * Unless required by applicable law or agreed to in writing, software
+ * distributed under the License is distributed on an "AS IS" BASIS,
+ * WITHOUT WARRANTIES OR CONDITIONS OF ANY KIND, either express or implied.
+ * See the License for the specific language governing permissions and
+ * limitations under the License.
+ */
+
+import { JsonObject } from '@backstage/types';
+
+import chalk from 'chalk';
+
+/**
+ * What to do when the config schemas of a plugin and its dependencies define
+ * the same key with different types or visibilities.
+ */
+export type ConfigSchemaConflictMode = 'fail' | 'warn' | 'off';
+
+/** A config schema, with the package that provides it */
+export type ConfigSchemaSource = {
+  value: JsonObject;
+  /** Name and version of the package, for example `@scope/plugin@1.0.0` */
+  package: string;
+};
+
+export type ConfigSchemaConflict = {
+  /** Config key path, with `*` for additional properties and `[]` for items */
+  path: string;
+  kind: 'type' | 'visibility';
+  /** The competing definitions, one per package */
+  definitions: { package: string; value: string }[];
+};
+
+/** The definition of a config key in one of the schemas */
+type KeyDefinition = {
+  package: string;
+  type?: string;
+  /** Visibility of the key, undefined if neither set nor inherited */
+  visibility?: string;
+};
+
+function collectKeyDefinitions(
+  schema: JsonObject,
+  path: string,
+  source: string,
+  inheritedVisibility: string | undefined,
+  definitions: Map<string, KeyDefinition[]>,
+) {
+  const visibility =
+    (schema.visibility as string | undefined) ??
+    (schema.deepVisibility as string | undefined) ??
+    inheritedVisibility;
+  const deepVisibility =
+    (schema.deepVisibility as string | undefined) ?? inheritedVisibility;
+
+  if (path) {
+    const keyDefinitions = definitions.get(path) ?? [];
+    definitions.set(path, keyDefinitions);
+    // Sub-schemas of `allOf` complete the definition of the same package
+    let definition = keyDefinitions.find(d => d.package === source);
+    if (!definition) {
+      definition = { package: source };
+      keyDefinitions.push(definition);
+    }
+    if (schema.type !== undefined && definition.type === undefined) {
+      definition.type = [schema.type].flat().sort().join(' | ');
+    }
+    definition.visibility ??= visibility;
+  }
+
+  const child = (subSchema: unknown, subPath: string) => {
+    if (
+      subSchema &&
+      typeof subSchema === 'object' &&
+      !Array.isArray(subSchema)
+    ) {
+      collectKeyDefinitions(
+        subSchema as JsonObject,
+        subPath,
+        source,
+        deepVisibility,
+        definitions,
+      );
+    }
+  };
+  const prefix = path ? `${path}.` : '';
+  for (const [key, subSchema] of Object.entries(
+    (schema.properties as JsonObject | undefined) ?? {},
+  )) {
+    child(subSchema, `${prefix}${key}`);
+  }
+  child(schema.additionalProperties, `${prefix}*`);
+  child(schema.items, `${path}[]`);
+  for (const subSchema of (schema.allOf as JsonObject[] | undefined) ?? []) {
+    collectKeyDefinitions(
+      subSchema,
+      path,
+      source,
+      inheritedVisibility,
+      definitions,
+    );
+  }
+}
+
+/**
+ * Finds the config keys that several schemas define with different types, or
+ * with different visibilities. Keys without visibility in a schema are
+ * `backend` keys, so a key that is only made `frontend` by another package is
+ * a conflict: the merged schema would silently expose it to the frontend.
+ */
+export function findConfigSchemaConflicts(
+  schemas: ConfigSchemaSource[],
+): ConfigSchemaConflict[] {
+  const definitions = new Map<string, KeyDefinition[]>();
+  for (const schema of schemas) {
+    collectKeyDefinitions(
+      schema.value,
+      '',
+      schema.package,
+      undefined,
+      definitions,
+    );
+  }
+
+  const conflicts: ConfigSchemaConflict[] = [];
+  for (const [path, keyDefinitions] of definitions) {
+    if (keyDefinitions.length < 2) {
+      continue;
+    }
+    const typed = keyDefinitions.filter(d => d.type !== undefined);
+    if (new Set(typed.map(d => d.type)).size > 1) {
+      conflicts.push({
+        path,
+        kind: 'type',
+        definitions: typed.map(d => ({ package: d.package, value: d.type! })),
+      });
+    }
+    if (keyDefinitions.some(d => d.visibility !== undefined)) {
+      const visibilities = keyDefinitions.map(d => ({
+        package: d.package,
+        value: d.visibility ?? 'backend',
+      }));
+      if (new Set(visibilities.map(d => d.value)).size > 1) {
+        conflicts.push({ path, kind: 'visibility', definitions: visibilities });
+      }
+    }
+  }
+  return conflicts;
+}
+
+export function formatConfigSchemaConflicts(
+  conflicts: ConfigSchemaConflict[],
+): string {
+  return `The config schemas of the plugin and its dependencies define the same keys differently:${[
+    '',
+    ...conflicts.map(
+      c =>
+        `${chalk.cyan(c.path)}: ${c.kind} ${c.definitions
+          .map(d => `'${d.value}' in ${d.package}`)
+          .join(', ')}`,
+    ),
+  ].join('\n- ')}`;
+}